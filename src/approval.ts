@@ -0,0 +1,115 @@
+import type { Tool } from "ai";
+import type { ToolContext } from "./config.js";
+import { emailsInInput, parseEmailAddress, recipientsOf } from "./utils.js";
+
+export interface ApprovalOptions {
+  toolCallId: string;
+  /** The `experimental_context` passed to `generateText` or `streamText`. */
+  experimental_context?: unknown;
+}
+
+/** Receives the validated tool input and returns whether the call needs approval. */
+export type ApprovalPredicate = (
+  input: unknown,
+  options: ApprovalOptions
+) => boolean | PromiseLike<boolean>;
+
+/** Approval is required when any of the set conditions matches. */
+export interface ApprovalConditions {
+  /** More recipients than this across `to`, `cc`, `bcc`, and every email of a batch. */
+  maxRecipients?: number;
+  /**
+   * A recipient outside these domains or their subdomains. `true` uses the
+   * configured `emailDomain`.
+   */
+  externalRecipients?: true | string[];
+  /** Any attachment. */
+  attachments?: boolean;
+  /** No `scheduledAt`, so the email or broadcast goes out immediately. */
+  immediate?: boolean;
+  /** Any other check over the input. */
+  when?: ApprovalPredicate;
+}
+
+export type ApprovalRule = boolean | ApprovalConditions | ApprovalPredicate;
+
+/** Approval rules keyed by tool name, such as `sendEmail`. */
+export type ApprovalPolicy = Record<string, ApprovalRule>;
+
+/** Destructive tools always ask, and batches ask once they reach many people. */
+export const DEFAULT_APPROVAL_POLICY: ApprovalPolicy = {
+  sendBatchEmails: { maxRecipients: 10 },
+  sendBroadcast: true,
+  removeBroadcast: true,
+  removeContact: true,
+  removeDomain: true,
+  removeSegment: true,
+  removeTemplate: true,
+};
+
+const isInternal = (recipient: string, domains: string[]) => {
+  const { domain } = parseEmailAddress(recipient);
+  return domains.some((internal) => {
+    const expected = internal.toLowerCase();
+    return domain === expected || domain.endsWith(`.${expected}`);
+  });
+};
+
+const hasAttachments = (email: Record<string, unknown>) =>
+  Array.isArray(email.attachments) && email.attachments.length > 0;
+
+const conditionsPredicate =
+  (
+    {
+      maxRecipients,
+      externalRecipients,
+      attachments,
+      immediate,
+      when,
+    }: ApprovalConditions,
+    emailDomain: string
+  ): ApprovalPredicate =>
+  (input, options) => {
+    const emails = emailsInInput(input);
+    const recipients = emails.flatMap(recipientsOf);
+    const internalDomains =
+      externalRecipients === true ? [emailDomain] : externalRecipients;
+    // Broadcasts have no recipients but can still be scheduled.
+    const deliveries =
+      emails.length > 0 ? emails : [input as Record<string, unknown>];
+
+    if (
+      (maxRecipients !== undefined && recipients.length > maxRecipients) ||
+      (internalDomains &&
+        recipients.some(
+          (recipient) => !isInternal(recipient, internalDomains)
+        )) ||
+      (attachments && emails.some(hasAttachments)) ||
+      (immediate && deliveries.some((delivery) => !delivery?.scheduledAt))
+    ) {
+      return true;
+    }
+    return when?.(input, options) ?? false;
+  };
+
+/**
+ * Sets `needsApproval` on every tool with a rule. Condition objects become
+ * predicates that the AI SDK evaluates with the validated input.
+ */
+export const withApprovalPolicy = <T extends Record<string, Tool>>(
+  tools: T,
+  { approvalPolicy, emailDomain }: ToolContext
+): T =>
+  Object.fromEntries(
+    Object.entries(tools).map(([name, definition]) => {
+      const rule = approvalPolicy[name];
+      if (rule === undefined) {
+        return [name, definition];
+      }
+      const needsApproval =
+        typeof rule === "object"
+          ? conditionsPredicate(rule, emailDomain)
+          : rule;
+      return [name, { ...definition, needsApproval }];
+    })
+  ) as T;
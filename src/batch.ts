@@ -0,0 +1,183 @@
+import type { Resend } from "resend";
+import { type ToolError, toToolError, validationError } from "./errors.js";
+import type { Logger } from "./logger.js";
+import { withoutUndefined } from "./utils.js";
+
+/** Maximum number of emails Resend accepts in one batch request. */
+export const BATCH_SIZE = 100;
+
+const DEFAULT_MAX_EMAILS = 1000;
+const DEFAULT_CONCURRENCY = 2;
+
+export type BatchValidation = "strict" | "permissive";
+
+export interface BatchOptions {
+  /** Split inputs larger than 100 emails into several batch requests. Defaults to false. */
+  chunking?: boolean;
+  /** Maximum number of emails accepted in one call when chunking. Defaults to 1000. */
+  maxEmails?: number;
+  /** Number of batch requests in flight at once when chunking. Defaults to 2. */
+  concurrency?: number;
+  /**
+   * Resend's batch validation mode. "strict" rejects the whole batch when any email
+   * is invalid, "permissive" sends the valid ones. Defaults to "strict".
+   */
+  validation?: BatchValidation;
+}
+
+export interface ResolvedBatchOptions {
+  maxEmails: number;
+  concurrency: number;
+  validation: BatchValidation;
+}
+
+export interface BatchItemResult extends Partial<ToolError> {
+  index: number;
+  id?: string;
+}
+
+export const resolveBatchOptions = (
+  options: BatchOptions = {}
+): ResolvedBatchOptions => ({
+  maxEmails: options.chunking
+    ? Math.max(options.maxEmails ?? DEFAULT_MAX_EMAILS, BATCH_SIZE)
+    : BATCH_SIZE,
+  concurrency: Math.max(1, options.concurrency ?? DEFAULT_CONCURRENCY),
+  validation: options.validation ?? "strict",
+});
+
+const toChunks = <T>(items: T[], size: number): T[][] => {
+  const chunks: T[][] = [];
+  for (let start = 0; start < items.length; start += size) {
+    chunks.push(items.slice(start, start + size));
+  }
+  return chunks;
+};
+
+const mapWithConcurrency = async <T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next;
+      next += 1;
+      results[index] = await fn(items[index] as T, index);
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, items.length) }, worker)
+  );
+  return results;
+};
+
+const sendChunk = async (
+  resend: Resend,
+  emails: unknown[],
+  offset: number,
+  logger: Logger,
+  options: { idempotencyKey?: string; batchValidation: BatchValidation }
+): Promise<BatchItemResult[]> => {
+  const fail = (failure: ToolError) =>
+    emails.map((_, position) => ({ index: offset + position, ...failure }));
+
+  try {
+    const { data, error } = await resend.batch.send(
+      emails as Parameters<typeof resend.batch.send>[0],
+      withoutUndefined(options)
+    );
+    if (error) {
+      return fail(toToolError(error));
+    }
+
+    const result = data as unknown as {
+      data?: { id: string }[];
+      errors?: { index: number; message: string }[];
+    };
+    const failed = new Map(
+      (result.errors ?? []).map(({ index, message }) => [index, message])
+    );
+    const ids = (result.data ?? []).map(({ id }) => id);
+    let nextId = 0;
+    return emails.map((_, position) => {
+      const message = failed.get(position);
+      if (message !== undefined) {
+        return { index: offset + position, ...validationError(message) };
+      }
+      const id = ids[nextId];
+      nextId += 1;
+      return id === undefined
+        ? {
+            index: offset + position,
+            ...toToolError(undefined, "No email ID was returned"),
+          }
+        : { index: offset + position, id };
+    });
+  } catch (error) {
+    logger.error("Error sending batch emails", { error, offset });
+    return fail(toToolError(error, "Failed to send batch emails"));
+  }
+};
+
+/**
+ * Sends the emails in batches of 100 and returns one result per email, in input
+ * order. Each chunk gets its own idempotency key so a retried call only resends
+ * the chunks Resend has not seen.
+ */
+export const sendBatches = async (
+  resend: Resend,
+  emails: unknown[],
+  {
+    concurrency,
+    validation,
+    idempotencyKey,
+    logger,
+  }: {
+    concurrency: number;
+    validation: BatchValidation;
+    idempotencyKey?: string;
+    logger: Logger;
+  }
+): Promise<BatchItemResult[]> => {
+  const chunks = toChunks(emails, BATCH_SIZE);
+  const results = await mapWithConcurrency(chunks, concurrency, (chunk, i) =>
+    sendChunk(resend, chunk, i * BATCH_SIZE, logger, {
+      idempotencyKey:
+        idempotencyKey && chunks.length > 1
+          ? `${idempotencyKey}-${i}`
+          : idempotencyKey,
+      batchValidation: validation,
+    })
+  );
+  return results.flat();
+};
+
+/**
+ * Combines the per-email failures into the error fields of the tool result.
+ * A batch that failed as a whole keeps the original error.
+ */
+export const summarizeBatchFailures = (
+  results: BatchItemResult[]
+): ToolError | undefined => {
+  const failures = results.filter(
+    (result): result is BatchItemResult & ToolError =>
+      result.error !== undefined
+  );
+  const [first] = failures;
+  if (!first) {
+    return;
+  }
+  const messages = new Set(failures.map((failure) => failure.error));
+  if (failures.length === results.length && messages.size === 1) {
+    const { index: _index, ...failure } = first;
+    return failure;
+  }
+  return {
+    error: `${failures.length} of ${results.length} email(s) failed. First error (email ${first.index}): ${first.error}`,
+    errorCode: first.errorCode,
+    retryable: failures.every((failure) => failure.retryable),
+  };
+};
@@ -0,0 +1,141 @@
+import { Resend } from "resend";
+import { type ApprovalPolicy, DEFAULT_APPROVAL_POLICY } from "./approval.js";
+import {
+  type BatchOptions,
+  type ResolvedBatchOptions,
+  resolveBatchOptions,
+} from "./batch.js";
+import { createHookRunner, type HookRunner, type ToolHooks } from "./hooks.js";
+import {
+  createIdempotencyGuard,
+  type IdempotencyGuard,
+  type IdempotencyOptions,
+} from "./idempotency.js";
+import { type Logger, type RedactionOptions, resolveLogger } from "./logger.js";
+import {
+  createQuotaGuard,
+  type QuotaGuard,
+  type QuotaOptions,
+} from "./quota.js";
+import type { RecipientPolicy } from "./recipient-policy.js";
+import {
+  createRequestLayer,
+  type RateLimitOptions,
+  type RetryOptions,
+} from "./request.js";
+import { resolveSenderPolicy, type SenderPolicy } from "./sender-policy.js";
+import type { EmailEventStore } from "./webhooks.js";
+
+export interface ResendToolsOptions {
+  /** A preconfigured Resend client. Takes precedence over `apiKey`. */
+  client?: Resend;
+  /** Resend API key. Defaults to the `RESEND_API_KEY` environment variable. */
+  apiKey?: string;
+  /** Verified sending domain. Defaults to the `RESEND_EMAIL_DOMAIN` environment variable. */
+  emailDomain?: string;
+  /** Restricts which `from` addresses the send tools accept. */
+  sender?: SenderPolicy;
+  /** Restricts or redirects the recipients of the send tools. */
+  recipients?: RecipientPolicy;
+  /** Simulate every tool that creates, changes, sends, or removes something in Resend. Reads still call the API. */
+  dryRun?: boolean;
+  /** Derive idempotency keys for sends and return the original email ID for duplicates. */
+  idempotency?: IdempotencyOptions | boolean;
+  /** Check `sendEmail` template variables against the template definition before sending. */
+  validateTemplates?: boolean;
+  /** Chunking, concurrency, and validation mode for `sendBatchEmails`. */
+  batch?: BatchOptions;
+  /** Retry rate-limited, server, and network errors with exponential backoff. `false` disables retries. */
+  retry?: RetryOptions | false;
+  /** Limit requests per second across all tools with a token bucket. Off by default. */
+  rateLimit?: RateLimitOptions | boolean;
+  /** Receives structured tool and request events. Defaults to `console` for errors only; `false` silences it. */
+  logger?: Logger | false;
+  /** What to redact from logged events. Email addresses, subjects, and bodies are redacted by default. */
+  redact?: RedactionOptions;
+  /** Wrap tool calls in OpenTelemetry spans when `@opentelemetry/api` is installed. Defaults to true. */
+  telemetry?: boolean;
+  /** Audit, veto, or change tool calls. Runs for every tool. */
+  hooks?: ToolHooks;
+  /** When tools ask for approval, per tool. Merged over the defaults; `false` turns a tool's approval off. */
+  approval?: ApprovalPolicy;
+  /** Limit how many emails and recipients `sendEmail` and `sendBatchEmails` reach per conversation, user, or window. */
+  quota?: QuotaOptions;
+  /** Webhook events that `getEmailEvents` reads. Pass the store given to `createWebhookHandler`. */
+  events?: EmailEventStore;
+}
+
+export interface ToolContext {
+  getClient: () => Resend;
+  emailDomain: string;
+  senderPolicy: SenderPolicy;
+  recipientPolicy: RecipientPolicy;
+  dryRun: boolean;
+  idempotency: IdempotencyGuard;
+  validateTemplates: boolean;
+  batch: ResolvedBatchOptions;
+  logger: Logger;
+  redact: RedactionOptions;
+  telemetry: boolean;
+  hooks: HookRunner;
+  approvalPolicy: ApprovalPolicy;
+  quota: QuotaGuard;
+  events: EmailEventStore | undefined;
+}
+
+const readEnv = (name: string): string | undefined =>
+  typeof process === "undefined" ? undefined : process.env[name];
+
+export const createToolContext = (
+  options: ResendToolsOptions = {}
+): ToolContext => {
+  let cachedClient: Resend | undefined = options.client;
+  // Keyed on the value so a changed or stubbed environment variable takes effect.
+  let envClient: { apiKey: string; client: Resend } | undefined;
+
+  const logger = resolveLogger(options.logger, options.redact);
+  const requestLayer = createRequestLayer({ ...options, logger });
+
+  const resolveClient = () => {
+    if (cachedClient) {
+      return cachedClient;
+    }
+    if (options.apiKey) {
+      cachedClient = new Resend(options.apiKey);
+      return cachedClient;
+    }
+    const apiKey = readEnv("RESEND_API_KEY");
+    if (!apiKey) {
+      throw new Error(
+        "RESEND_API_KEY environment variable is required when no client or apiKey is provided"
+      );
+    }
+    if (envClient?.apiKey !== apiKey) {
+      envClient = { apiKey, client: new Resend(apiKey) };
+    }
+    return envClient.client;
+  };
+
+  const getClient = () => requestLayer.wrap(resolveClient());
+
+  const emailDomain =
+    options.emailDomain ?? readEnv("RESEND_EMAIL_DOMAIN") ?? "";
+
+  return {
+    getClient,
+    emailDomain,
+    senderPolicy: resolveSenderPolicy(options.sender, emailDomain),
+    recipientPolicy: options.recipients ?? {},
+    dryRun: options.dryRun ?? false,
+    idempotency: createIdempotencyGuard(options.idempotency),
+    validateTemplates: options.validateTemplates ?? false,
+    batch: resolveBatchOptions(options.batch),
+    logger,
+    redact: options.redact ?? {},
+    telemetry: options.telemetry ?? true,
+    hooks: createHookRunner(options.hooks ?? {}, logger),
+    approvalPolicy: { ...DEFAULT_APPROVAL_POLICY, ...options.approval },
+    quota: createQuotaGuard(options.quota, logger),
+    events: options.events,
+  };
+};
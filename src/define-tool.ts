@@ -0,0 +1,21 @@
+import {
+  type FlexibleSchema,
+  type Tool,
+  type ToolExecutionOptions,
+  tool,
+} from "ai";
+
+/**
+ * `tool()` with the output type taken from `outputSchema` alone. Inferring it from
+ * `execute` as well fails for results built with spreads, such as the shared error
+ * fields, and reports the mismatch on the whole call instead of the bad return.
+ */
+export const defineTool = <INPUT, OUTPUT>(
+  definition: Omit<Tool<INPUT, OUTPUT>, "execute" | "outputSchema"> & {
+    outputSchema: FlexibleSchema<OUTPUT>;
+    execute: (
+      input: INPUT,
+      options: ToolExecutionOptions
+    ) => Promise<NoInfer<OUTPUT>>;
+  }
+) => tool<INPUT, OUTPUT>(definition as Tool<INPUT, OUTPUT>);
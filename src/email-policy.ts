@@ -0,0 +1,101 @@
+import type { ToolContext } from "./config.js";
+import {
+  checkRecipients,
+  type Recipients,
+  type SandboxRedirect,
+} from "./recipient-policy.js";
+import { checkSender, type PolicyViolation } from "./sender-policy.js";
+
+export interface OutgoingEmail extends Recipients {
+  from: string;
+}
+
+export type PreparedEmail<T extends OutgoingEmail> =
+  | {
+      allowed: true;
+      email: T;
+      violations: PolicyViolation[];
+      sandbox?: SandboxRedirect;
+    }
+  | { allowed: false; violations: PolicyViolation[]; error: string };
+
+export const prepareEmail = <T extends OutgoingEmail>(
+  {
+    senderPolicy,
+    recipientPolicy,
+  }: Pick<ToolContext, "senderPolicy" | "recipientPolicy">,
+  email: T
+): PreparedEmail<T> => {
+  const sender = checkSender(senderPolicy, email.from);
+  const senderViolations = sender.violation ? [sender.violation] : [];
+  if (!sender.allowed) {
+    return {
+      allowed: false,
+      violations: senderViolations,
+      error: sender.violation.reason,
+    };
+  }
+
+  const recipients = checkRecipients(recipientPolicy, {
+    ...email,
+    from: sender.from,
+  });
+  const violations = [...senderViolations, ...recipients.violations];
+  if (!recipients.allowed) {
+    return { allowed: false, violations, error: recipients.error };
+  }
+
+  return {
+    allowed: true,
+    email: recipients.email,
+    violations,
+    sandbox: recipients.sandbox,
+  };
+};
+
+export type PreparedBatch<T extends OutgoingEmail> =
+  | {
+      allowed: true;
+      emails: T[];
+      violations: PolicyViolation[];
+      sandbox?: SandboxRedirect;
+    }
+  | { allowed: false; violations: PolicyViolation[]; error: string };
+
+export const prepareBatch = <T extends OutgoingEmail>(
+  context: Pick<ToolContext, "senderPolicy" | "recipientPolicy">,
+  emails: T[]
+): PreparedBatch<T> => {
+  const prepared = emails.map((email) => prepareEmail(context, email));
+  const violations = prepared.flatMap((result, index) =>
+    result.violations.map((violation) => ({ ...violation, index }))
+  );
+
+  const accepted: T[] = [];
+  const originalRecipients: string[] = [];
+  const errors: string[] = [];
+  for (const result of prepared) {
+    if (result.allowed) {
+      accepted.push(result.email);
+      originalRecipients.push(...(result.sandbox?.originalRecipients ?? []));
+    } else {
+      errors.push(result.error);
+    }
+  }
+
+  if (errors.length > 0) {
+    return {
+      allowed: false,
+      violations,
+      error: `${errors.length} email(s) violate the sending policy: ${errors[0]}`,
+    };
+  }
+
+  const inbox = context.recipientPolicy.sandboxInbox;
+  return {
+    allowed: true,
+    emails: accepted,
+    violations,
+    sandbox: inbox ? { inbox, originalRecipients } : undefined,
+  };
+};
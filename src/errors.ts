@@ -0,0 +1,144 @@
+import type { z } from "zod";
+import type { ErrorCodeSchema } from "./schemas.js";
+
+export type ErrorCode = z.infer<typeof ErrorCodeSchema>;
+
+export interface ToolError {
+  error: string;
+  errorCode: ErrorCode;
+  retryable: boolean;
+  resendErrorName?: string;
+  statusCode?: number;
+}
+
+interface ResendErrorLike {
+  message: string;
+  name?: string;
+  statusCode?: number | null;
+}
+
+const DOMAIN_NOT_VERIFIED_PATTERN =
+  /domain is not verified|verify your domain/i;
+
+const CODES_BY_NAME: Record<string, ErrorCode> = {
+  validation_error: "validation",
+  invalid_parameter: "validation",
+  missing_required_field: "validation",
+  invalid_attachment: "validation",
+  invalid_from_address: "validation",
+  invalid_idempotency_key: "validation",
+  invalid_idempotent_request: "validation",
+  invalid_region: "validation",
+  missing_api_key: "auth",
+  invalid_api_key: "auth",
+  restricted_api_key: "auth",
+  invalid_access: "auth",
+  not_found: "not_found",
+  rate_limit_exceeded: "rate_limited",
+  concurrent_idempotent_requests: "rate_limited",
+  daily_quota_exceeded: "quota_exceeded",
+  monthly_quota_exceeded: "quota_exceeded",
+};
+
+const codeForStatus = (statusCode: number | undefined): ErrorCode => {
+  switch (statusCode) {
+    case 400:
+    case 422:
+      return "validation";
+    case 401:
+    case 403:
+      return "auth";
+    case 404:
+      return "not_found";
+    case 429:
+      return "rate_limited";
+    default:
+      return "internal";
+  }
+};
+
+const isResendError = (error: unknown): error is ResendErrorLike =>
+  typeof error === "object" &&
+  error !== null &&
+  !(error instanceof Error) &&
+  typeof (error as { message?: unknown }).message === "string";
+
+const fromResendError = ({
+  message,
+  name,
+  statusCode,
+}: ResendErrorLike): ToolError => {
+  const status = statusCode ?? undefined;
+  let errorCode =
+    (name ? CODES_BY_NAME[name] : undefined) ?? codeForStatus(status);
+  if (
+    (errorCode === "validation" || errorCode === "auth") &&
+    DOMAIN_NOT_VERIFIED_PATTERN.test(message)
+  ) {
+    errorCode = "domain_not_verified";
+  }
+  const serverError =
+    errorCode === "internal" &&
+    (status === undefined ? name === "application_error" : status >= 500);
+
+  return {
+    error: message,
+    errorCode,
+    retryable: errorCode === "rate_limited" || serverError,
+    resendErrorName: name,
+    statusCode: status,
+  };
+};
+
+/**
+ * Turns a Resend error response or a thrown error into the error fields every
+ * tool result shares. Thrown errors are treated as internal and not retryable.
+ */
+export const toToolError = (
+  error: unknown,
+  fallbackMessage = "Unexpected error"
+): ToolError => {
+  if (isResendError(error)) {
+    return fromResendError(error);
+  }
+  return {
+    error: error instanceof Error ? error.message : fallbackMessage,
+    errorCode: "internal",
+    retryable: false,
+  };
+};
+
+/** Error fields for input that was rejected before calling Resend. */
+export const validationError = (message: string): ToolError => ({
+  error: message,
+  errorCode: "validation",
+  retryable: false,
+});
+
+/** Error fields for a call refused by a `beforeExecute` hook or a quota rule. */
+export const rejectedError = (message: string): ToolError => ({
+  error: message,
+  errorCode: "rejected",
+  retryable: false,
+});
+
+/** Error fields for an email that ended before reaching the expected event. */
+export const undeliverableError = (message: string): ToolError => ({
+  error: message,
+  errorCode: "undeliverable",
+  retryable: false,
+});
+
+/** Error fields for a tool that needs an option `createResendTools` was not given. */
+export const notConfiguredError = (message: string): ToolError => ({
+  error: message,
+  errorCode: "not_configured",
+  retryable: false,
+});
+
+/** Error fields for a wait that ended before the expected state was reached. */
+export const timeoutError = (message: string): ToolError => ({
+  error: message,
+  errorCode: "timeout",
+  retryable: true,
+});
@@ -0,0 +1,86 @@
+import type { ToolError } from "./errors.js";
+import type { Logger } from "./logger.js";
+import type { ResendRequest } from "./tool-call.js";
+
+export interface ToolHookEvent {
+  /** Name of the tool, such as `sendEmail`. */
+  tool: string;
+  /** Input after schema validation and any `beforeExecute` changes. */
+  input: unknown;
+  toolCallId: string;
+  /** The `experimental_context` passed to `generateText` or `streamText`. */
+  experimental_context: unknown;
+}
+
+export interface AfterExecuteEvent extends ToolHookEvent {
+  result: unknown;
+  /** Resend calls made during the tool call, in order. */
+  requests: ResendRequest[];
+}
+
+export interface ToolErrorEvent extends ToolHookEvent {
+  error: ToolError;
+  /** The failed result. Undefined when the tool threw. */
+  result?: unknown;
+  requests: ResendRequest[];
+}
+
+/**
+ * Returned from `beforeExecute`. `veto` skips the call and returns a `rejected`
+ * error with the given reason; `input` replaces the input.
+ */
+export type BeforeExecuteDecision = { veto: string } | { input: unknown };
+
+export interface ToolHooks {
+  /** Runs before the tool. Return a decision to veto the call or change its input. */
+  beforeExecute?: (
+    event: ToolHookEvent
+  ) =>
+    | BeforeExecuteDecision
+    | void
+    | Promise<BeforeExecuteDecision | undefined>
+    | Promise<void>;
+  /** Runs after a call that succeeded. */
+  afterExecute?: (event: AfterExecuteEvent) => void | Promise<void>;
+  /** Runs after a call that failed or threw. */
+  onError?: (event: ToolErrorEvent) => void | Promise<void>;
+}
+
+export interface HookRunner {
+  before(event: ToolHookEvent): Promise<BeforeExecuteDecision | undefined>;
+  after(event: AfterExecuteEvent): Promise<void>;
+  error(event: ToolErrorEvent): Promise<void>;
+}
+
+/**
+ * Errors thrown by `beforeExecute` propagate, so a failing business rule blocks
+ * the call. Errors thrown after the call are logged instead, since the email
+ * may already have been sent and failing the tool would invite a retry.
+ */
+export const createHookRunner = (
+  hooks: ToolHooks,
+  logger: Logger
+): HookRunner => {
+  const settle = async (
+    hook: string,
+    event: ToolHookEvent,
+    run: () => unknown
+  ) => {
+    try {
+      await run();
+    } catch (error) {
+      logger.error(`Error in ${hook} hook`, {
+        tool: event.tool,
+        toolCallId: event.toolCallId,
+        error,
+      });
+    }
+  };
+
+  return {
+    before: async (event) => (await hooks.beforeExecute?.(event)) ?? undefined,
+    after: (event) =>
+      settle("afterExecute", event, () => hooks.afterExecute?.(event)),
+    error: (event) => settle("onError", event, () => hooks.onError?.(event)),
+  };
+};
@@ -0,0 +1,109 @@
+import { stableStringify } from "./utils.js";
+
+const DEFAULT_TTL_MS = 24 * 60 * 60 * 1000;
+
+export interface IdempotencyRecord {
+  ids: string[];
+}
+
+export interface IdempotencyStore {
+  get(
+    key: string
+  ): IdempotencyRecord | undefined | Promise<IdempotencyRecord | undefined>;
+  set(
+    key: string,
+    record: IdempotencyRecord,
+    ttlMs: number
+  ): void | Promise<void>;
+}
+
+export interface IdempotencyOptions {
+  /** Where the IDs of sent emails are remembered. Defaults to an in-memory store. */
+  store?: IdempotencyStore;
+  /** How long a key is remembered. Defaults to 24 hours, matching Resend. */
+  ttlMs?: number;
+  /**
+   * What derived keys are built from. "toolCall" hashes the tool call ID with the payload,
+   * "payload" hashes only the payload so identical sends dedupe across tool calls.
+   * Defaults to "toolCall".
+   */
+  scope?: "toolCall" | "payload";
+}
+
+export interface IdempotencyGuard {
+  resolveKey(
+    explicitKey: string | undefined,
+    toolCallId: string,
+    payload: unknown
+  ): Promise<string | undefined>;
+  lookup(key: string | undefined): Promise<IdempotencyRecord | undefined>;
+  remember(key: string | undefined, record: IdempotencyRecord): Promise<void>;
+}
+
+export const createMemoryIdempotencyStore = (): IdempotencyStore => {
+  const entries = new Map<
+    string,
+    { record: IdempotencyRecord; expiresAt: number }
+  >();
+
+  return {
+    get: (key) => {
+      const entry = entries.get(key);
+      if (!entry) {
+        return undefined;
+      }
+      if (entry.expiresAt <= Date.now()) {
+        entries.delete(key);
+        return undefined;
+      }
+      return entry.record;
+    },
+    set: (key, record, ttlMs) => {
+      entries.set(key, { record, expiresAt: Date.now() + ttlMs });
+    },
+  };
+};
+
+const sha256 = async (value: string) => {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(value)
+  );
+  return Array.from(new Uint8Array(digest), (byte) =>
+    byte.toString(16).padStart(2, "0")
+  ).join("");
+};
+
+export const createIdempotencyGuard = (
+  options: IdempotencyOptions | boolean | undefined
+): IdempotencyGuard => {
+  if (!options) {
+    return {
+      resolveKey: async (explicitKey) => explicitKey,
+      lookup: async () => undefined,
+      remember: async () => undefined,
+    };
+  }
+
+  const { store = createMemoryIdempotencyStore(), ttlMs = DEFAULT_TTL_MS } =
+    options === true ? {} : options;
+  const scope = options === true ? "toolCall" : (options.scope ?? "toolCall");
+
+  return {
+    resolveKey: async (explicitKey, toolCallId, payload) => {
+      if (explicitKey) {
+        return explicitKey;
+      }
+      const payloadJson = stableStringify(payload);
+      return await sha256(
+        scope === "toolCall" ? `${toolCallId}:${payloadJson}` : payloadJson
+      );
+    },
+    lookup: async (key) => (key ? await store.get(key) : undefined),
+    remember: async (key, record) => {
+      if (key) {
+        await store.set(key, record, ttlMs);
+      }
+    },
+  };
+};
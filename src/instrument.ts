@@ -0,0 +1,178 @@
+import type { Tool, ToolExecutionOptions } from "ai";
+import { z } from "zod";
+import type { ToolContext } from "./config.js";
+import { rejectedError, type ToolError, toToolError } from "./errors.js";
+import type { ToolHookEvent } from "./hooks.js";
+import { traceToolCall } from "./telemetry.js";
+import { runInToolCall, type ToolCall } from "./tool-call.js";
+
+type ToolResult = Partial<ToolError>;
+
+const toolErrorOf = ({
+  error = "",
+  errorCode = "internal",
+  retryable = false,
+  resendErrorName,
+  statusCode,
+}: ToolResult): ToolError => ({
+  error,
+  errorCode,
+  retryable,
+  resendErrorName,
+  statusCode,
+});
+
+const EMPTY_VALUES: Record<string, unknown> = {
+  boolean: false,
+  string: "",
+  number: 0,
+  array: [],
+};
+
+/**
+ * Builds a failed result that still matches the tool's output schema, so a
+ * vetoed list call has its empty array and count. Required strings are taken
+ * from the input when it has a field of the same name, such as the `id` the
+ * call was about.
+ */
+const failureResult = (
+  outputSchema: unknown,
+  input: unknown,
+  failure: ToolError
+) => {
+  const shape: Record<string, z.ZodType> =
+    outputSchema instanceof z.ZodObject ? outputSchema.shape : {};
+  const values = (input ?? {}) as Record<string, unknown>;
+  const result: Record<string, unknown> = {};
+  for (const [key, field] of Object.entries(shape)) {
+    if (field.safeParse(undefined).success) {
+      continue;
+    }
+    result[key] =
+      typeof values[key] === "string" && field.safeParse(values[key]).success
+        ? values[key]
+        : EMPTY_VALUES[field.def.type];
+  }
+  return { ...result, ...failure };
+};
+
+/**
+ * Wraps every tool's `execute` so each call runs its hooks, its own tool-call
+ * scope and span, and reports its duration, outcome, and Resend request ID to
+ * the logger.
+ */
+export const instrumentTools = <T extends Record<string, Tool>>(
+  tools: T,
+  { logger, redact, telemetry, hooks }: ToolContext
+): T =>
+  Object.fromEntries(
+    Object.entries(tools).map(([name, definition]) => {
+      const { execute, outputSchema } = definition;
+      if (!execute) {
+        return [name, definition];
+      }
+
+      const run = async (
+        event: ToolHookEvent,
+        options: ToolExecutionOptions
+      ) => {
+        const call: ToolCall = {
+          tool: name,
+          toolCallId: options.toolCallId,
+          requestIds: [],
+          requests: [],
+          retries: 0,
+        };
+        const startedAt = Date.now();
+        logger.debug("Resend tool called", {
+          tool: name,
+          toolCallId: options.toolCallId,
+          input: event.input,
+        });
+
+        const fields = () => ({
+          tool: name,
+          toolCallId: options.toolCallId,
+          durationMs: Date.now() - startedAt,
+          requestId: call.requestIds.at(-1),
+        });
+
+        try {
+          const result = await traceToolCall(
+            { enabled: telemetry, redact, call, input: event.input },
+            () =>
+              runInToolCall(
+                call,
+                async () => (await execute(event.input, options)) as ToolResult
+              )
+          );
+          if (result.error === undefined) {
+            logger.info("Resend tool succeeded", {
+              ...fields(),
+              outcome: "success",
+            });
+            await hooks.after({ ...event, result, requests: call.requests });
+          } else {
+            logger.warn("Resend tool failed", {
+              ...fields(),
+              outcome: "error",
+              errorCode: result.errorCode,
+              error: result.error,
+            });
+            await hooks.error({
+              ...event,
+              error: toolErrorOf(result),
+              result,
+              requests: call.requests,
+            });
+          }
+          return result;
+        } catch (error) {
+          logger.error("Resend tool threw", {
+            ...fields(),
+            outcome: "exception",
+            error,
+          });
+          await hooks.error({
+            ...event,
+            error: toToolError(error),
+            requests: call.requests,
+          });
+          throw error;
+        }
+      };
+
+      const instrumented = async (
+        input: unknown,
+        options: ToolExecutionOptions
+      ) => {
+        const event: ToolHookEvent = {
+          tool: name,
+          input,
+          toolCallId: options.toolCallId,
+          experimental_context: options.experimental_context,
+        };
+        const decision = await hooks.before(event);
+        if (decision && "veto" in decision) {
+          logger.warn("Resend tool vetoed", {
+            tool: name,
+            toolCallId: options.toolCallId,
+            reason: decision.veto,
+          });
+          return failureResult(
+            outputSchema,
+            event.input,
+            rejectedError(decision.veto)
+          );
+        }
+        return run(
+          decision && "input" in decision
+            ? { ...event, input: decision.input }
+            : event,
+          options
+        );
+      };
+
+      return [name, { ...definition, execute: instrumented }];
+    })
+  ) as T;
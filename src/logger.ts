@@ -0,0 +1,108 @@
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Receives structured events from the tools. `console` satisfies this interface,
+ * as do most logging libraries.
+ */
+export type Logger = Record<
+  LogLevel,
+  (message: string, fields?: LogFields) => void
+>;
+
+export interface RedactionOptions {
+  /** Mask the local part of email addresses in every logged string. Defaults to true. */
+  emails?: boolean;
+  /** Replace subjects with a placeholder. Defaults to true. */
+  subjects?: boolean;
+  /** Replace HTML, text, and other email content with a placeholder. Defaults to true. */
+  bodies?: boolean;
+}
+
+const REDACTED = "[redacted]";
+const MAX_DEPTH = 8;
+
+const EMAIL_PATTERN = /[^\s@<>"'(),;:]+@([^\s@<>"'(),;:]+\.[^\s@<>"'(),;:]+)/g;
+
+const SUBJECT_KEYS = new Set(["subject", "previewText"]);
+const BODY_KEYS = new Set(["html", "text", "react", "body", "content"]);
+
+const noop = () => undefined;
+
+const silentLogger: Logger = {
+  debug: noop,
+  info: noop,
+  warn: noop,
+  error: noop,
+};
+
+/** Only errors reach the console unless a logger is configured. */
+const defaultLogger: Logger = {
+  ...silentLogger,
+  error: (message, fields) => console.error(message, fields),
+};
+
+const createRedactor = ({
+  emails = true,
+  subjects = true,
+  bodies = true,
+}: RedactionOptions) => {
+  const redactValue = (value: unknown, depth: number): unknown => {
+    if (typeof value === "string") {
+      return emails ? value.replace(EMAIL_PATTERN, `${REDACTED}@$1`) : value;
+    }
+    if (typeof value !== "object" || value === null || depth > MAX_DEPTH) {
+      return value;
+    }
+    if (value instanceof Error) {
+      return redactValue(
+        { name: value.name, message: value.message },
+        depth + 1
+      );
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => redactValue(item, depth + 1));
+    }
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => {
+        if (
+          item !== undefined &&
+          ((subjects && SUBJECT_KEYS.has(key)) ||
+            (bodies && BODY_KEYS.has(key)))
+        ) {
+          return [key, REDACTED];
+        }
+        return [key, redactValue(item, depth + 1)];
+      })
+    );
+  };
+
+  return (fields: LogFields) => redactValue(fields, 0) as LogFields;
+};
+
+/**
+ * Wraps the configured logger so every event is redacted before it is emitted.
+ * `false` silences logging altogether.
+ */
+export const resolveLogger = (
+  logger: Logger | false | undefined,
+  redaction: RedactionOptions = {}
+): Logger => {
+  if (logger === false) {
+    return silentLogger;
+  }
+  const target = logger ?? defaultLogger;
+  const redact = createRedactor(redaction);
+  const emit =
+    (level: LogLevel) =>
+    (message: string, fields: LogFields = {}) =>
+      target[level](message, redact(fields));
+
+  return {
+    debug: emit("debug"),
+    info: emit("info"),
+    warn: emit("warn"),
+    error: emit("error"),
+  };
+};
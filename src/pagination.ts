@@ -0,0 +1,122 @@
+import { z } from "zod";
+import { withoutUndefined } from "./utils.js";
+
+export const DEFAULT_MAX_PAGES = 5;
+const MAX_PAGES_LIMIT = 20;
+
+export interface PageCursor {
+  limit?: number;
+  after?: string;
+  before?: string;
+}
+
+export interface Page<T> {
+  items: T[];
+  hasMore: boolean;
+  error?: unknown;
+}
+
+export interface WalkOptions extends PageCursor {
+  autoPaginate?: boolean;
+  maxPages?: number;
+}
+
+export type WalkResult<T> =
+  | { ok: true; items: T[]; hasMore: boolean; nextCursor?: string }
+  | { ok: false; error: unknown };
+
+export const paginationInputFields = (resource: string) => ({
+  limit: z
+    .number()
+    .min(1)
+    .max(100)
+    .optional()
+    .describe(`Number of ${resource} to fetch per page. Default 20, max 100.`),
+  after: z
+    .string()
+    .optional()
+    .describe(
+      `Cursor to continue from: pass nextCursor from a previous call, or a ${resource} ID. Cannot be used with before.`
+    ),
+  before: z
+    .string()
+    .optional()
+    .describe(
+      `ID before which to retrieve ${resource} (for backward pagination). Cannot be used with after or autoPaginate.`
+    ),
+  autoPaginate: z
+    .boolean()
+    .optional()
+    .describe(
+      `Keep fetching pages until enough matching ${resource} are found, there are no more pages, or maxPages is reached.`
+    ),
+  maxPages: z
+    .number()
+    .min(1)
+    .max(MAX_PAGES_LIMIT)
+    .optional()
+    .describe(
+      `Maximum number of pages to fetch with autoPaginate. Default ${DEFAULT_MAX_PAGES}, max ${MAX_PAGES_LIMIT}.`
+    ),
+});
+
+export const includesText = (value: string, search: string | undefined) =>
+  search === undefined || value.toLowerCase().includes(search.toLowerCase());
+
+export const inDateRange = (
+  value: string | undefined,
+  from: string | undefined,
+  to: string | undefined
+) => {
+  if (from === undefined && to === undefined) {
+    return true;
+  }
+  const time = value ? Date.parse(value) : Number.NaN;
+  if (Number.isNaN(time)) {
+    return false;
+  }
+  return (
+    (from === undefined || time >= Date.parse(from)) &&
+    (to === undefined || time <= Date.parse(to))
+  );
+};
+
+/**
+ * Fetches pages and keeps the items that match. Without `autoPaginate` only one
+ * page is fetched. With it, pages are walked forward until `limit` matches are
+ * collected, the list ends, or `maxPages` is reached. `nextCursor` is the ID of
+ * the last item scanned, so passing it as `after` continues where the walk stopped.
+ */
+export const walkPages = async <T extends { id: string }>(
+  fetchPage: (cursor: PageCursor) => Promise<Page<T>>,
+  matches: (item: T) => boolean,
+  { limit, after, before, autoPaginate, maxPages }: WalkOptions
+): Promise<WalkResult<T>> => {
+  const pageBudget =
+    autoPaginate && !before ? (maxPages ?? DEFAULT_MAX_PAGES) : 1;
+  const items: T[] = [];
+  let cursor: PageCursor = { limit, after, before };
+  let hasMore = false;
+  let lastId: string | undefined;
+
+  for (let page = 0; page < pageBudget; page++) {
+    const result = await fetchPage(withoutUndefined(cursor));
+    if (result.error) {
+      return { ok: false, error: result.error };
+    }
+    items.push(...result.items.filter(matches));
+    hasMore = result.hasMore;
+    lastId = result.items.at(-1)?.id;
+    if (!(hasMore && lastId) || (limit && items.length >= limit)) {
+      break;
+    }
+    cursor = { limit, after: lastId };
+  }
+
+  return {
+    ok: true,
+    items,
+    hasMore,
+    nextCursor: hasMore && !before ? lastId : undefined,
+  };
+};
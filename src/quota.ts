@@ -0,0 +1,301 @@
+import { rejectedError, type ToolError } from "./errors.js";
+import type { Logger } from "./logger.js";
+import { recipientsOf } from "./utils.js";
+
+const WINDOW_MS = {
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+} as const;
+
+export type QuotaScope = "conversation" | "user" | "global";
+export type QuotaWindow = keyof typeof WINDOW_MS;
+
+export interface QuotaUsage {
+  emails: number;
+  recipients: number;
+}
+
+export interface QuotaLimit {
+  /** Whose sends are counted together. */
+  per: QuotaScope;
+  /** Rolling window the sends are counted over. Counts never expire when omitted. */
+  window?: QuotaWindow;
+  /** Most emails allowed. */
+  emails?: number;
+  /** Most recipients allowed across `to`, `cc`, and `bcc`. */
+  recipients?: number;
+}
+
+export interface QuotaStore {
+  /** Usage recorded for the key since the given time. */
+  usage(key: string, since: number): QuotaUsage | Promise<QuotaUsage>;
+  /** Records usage for the key now and returns an ID for `release`. `ttlMs` is how long it must be kept. */
+  record(
+    key: string,
+    usage: QuotaUsage,
+    ttlMs: number
+  ): string | Promise<string>;
+  /** Subtracts usage from a record, for reserved emails that were not sent. */
+  release(key: string, id: string, usage: QuotaUsage): void | Promise<void>;
+}
+
+export interface QuotaIdentity {
+  conversationId?: string;
+  userId?: string;
+}
+
+export interface QuotaOptions {
+  limits: QuotaLimit[];
+  /** Where usage is counted. Defaults to an in-memory store. */
+  store?: QuotaStore;
+  /**
+   * Reads the conversation and user from the AI SDK `experimental_context`.
+   * Defaults to its `conversationId` and `userId` fields.
+   */
+  identify?: (context: unknown) => QuotaIdentity;
+  /**
+   * What to do with a conversation or user limit when the call has no such ID.
+   * "skip" ignores the limit and logs a warning; "reject" refuses the send.
+   * Defaults to "skip".
+   */
+  onMissingIdentity?: "skip" | "reject";
+}
+
+export const createMemoryQuotaStore = (): QuotaStore => {
+  const entries = new Map<
+    string,
+    (QuotaUsage & { id: string; at: number; expiresAt: number })[]
+  >();
+
+  return {
+    usage: (key, since) => {
+      const now = Date.now();
+      const live = (entries.get(key) ?? []).filter(
+        (entry) => entry.expiresAt > now
+      );
+      entries.set(key, live);
+      return live
+        .filter((entry) => entry.at >= since)
+        .reduce(
+          (total, entry) => ({
+            emails: total.emails + entry.emails,
+            recipients: total.recipients + entry.recipients,
+          }),
+          { emails: 0, recipients: 0 }
+        );
+    },
+    record: (key, usage, ttlMs) => {
+      const now = Date.now();
+      const entry = {
+        ...usage,
+        id: crypto.randomUUID(),
+        at: now,
+        expiresAt: now + ttlMs,
+      };
+      entries.set(key, [...(entries.get(key) ?? []), entry]);
+      return entry.id;
+    },
+    release: (key, id, usage) => {
+      entries.set(
+        key,
+        (entries.get(key) ?? []).map((entry) =>
+          entry.id === id
+            ? {
+                ...entry,
+                emails: entry.emails - usage.emails,
+                recipients: entry.recipients - usage.recipients,
+              }
+            : entry
+        )
+      );
+    },
+  };
+};
+
+const defaultIdentify = (context: unknown): QuotaIdentity => {
+  const fields =
+    typeof context === "object" && context !== null
+      ? (context as Record<string, unknown>)
+      : {};
+  return {
+    conversationId:
+      typeof fields.conversationId === "string"
+        ? fields.conversationId
+        : undefined,
+    userId: typeof fields.userId === "string" ? fields.userId : undefined,
+  };
+};
+
+const scopeKey = (per: QuotaScope, identity: QuotaIdentity) => {
+  switch (per) {
+    case "conversation":
+      return (
+        identity.conversationId && `conversation:${identity.conversationId}`
+      );
+    case "user":
+      return identity.userId && `user:${identity.userId}`;
+    default:
+      return "global";
+  }
+};
+
+const windowMs = (limit: QuotaLimit) =>
+  limit.window ? WINDOW_MS[limit.window] : Number.POSITIVE_INFINITY;
+
+const describeLimit = (limit: QuotaLimit, unit: keyof QuotaUsage) => {
+  const per = limit.per === "global" ? "in total" : `per ${limit.per}`;
+  const window = limit.window ? ` per ${limit.window}` : "";
+  return `${limit[unit]} ${unit} ${per}${window}`;
+};
+
+type QuotaEmail = Record<string, unknown>;
+
+const usageOf = (emails: QuotaEmail[]): QuotaUsage => ({
+  emails: emails.length,
+  recipients: emails.flatMap(recipientsOf).length,
+});
+
+export type QuotaReservation =
+  | {
+      ok: true;
+      /** Gives back the usage of reserved emails that were not sent. */
+      release(unsent: QuotaEmail[]): Promise<void>;
+    }
+  | { ok: false; failure: ToolError };
+
+export interface QuotaGuard {
+  /**
+   * Counts these emails against every limit they fall under, or returns the
+   * error fields for the first limit they would exceed.
+   */
+  reserve(emails: QuotaEmail[], context: unknown): Promise<QuotaReservation>;
+}
+
+const NOTHING_RESERVED: QuotaReservation = {
+  ok: true,
+  release: async () => undefined,
+};
+
+/**
+ * Runs `fn` after every earlier call holding one of the keys has finished, so
+ * parallel tool calls cannot all pass the check before any of them records.
+ */
+const createKeyLock = () => {
+  const tails = new Map<string, Promise<unknown>>();
+  return async <T>(keys: string[], fn: () => Promise<T>): Promise<T> => {
+    const previous = keys.map((key) => tails.get(key));
+    const run = Promise.all(previous).then(fn);
+    const tail = run.catch(() => undefined);
+    for (const key of keys) {
+      tails.set(key, tail);
+    }
+    try {
+      return await run;
+    } finally {
+      for (const key of keys) {
+        if (tails.get(key) === tail) {
+          tails.delete(key);
+        }
+      }
+    }
+  };
+};
+
+export const createQuotaGuard = (
+  options: QuotaOptions | undefined,
+  logger: Logger
+): QuotaGuard => {
+  if (!options?.limits.length) {
+    return { reserve: async () => NOTHING_RESERVED };
+  }
+  const {
+    limits,
+    store = createMemoryQuotaStore(),
+    identify = defaultIdentify,
+    onMissingIdentity = "skip",
+  } = options;
+  const withKeys = createKeyLock();
+
+  const applicableLimits = (context: unknown) => {
+    const identity = identify(context);
+    const missing = new Set<QuotaScope>();
+    const applicable = limits.flatMap((limit) => {
+      const key = scopeKey(limit.per, identity);
+      if (!key) {
+        missing.add(limit.per);
+      }
+      return key ? [{ limit, key }] : [];
+    });
+    return { applicable, missing: [...missing] };
+  };
+
+  const exceededLimit = async (
+    applicable: { limit: QuotaLimit; key: string }[],
+    requested: QuotaUsage
+  ): Promise<ToolError | undefined> => {
+    const now = Date.now();
+    for (const { limit, key } of applicable) {
+      const used = await store.usage(key, now - windowMs(limit));
+      for (const unit of ["emails", "recipients"] as const) {
+        const max = limit[unit];
+        if (max !== undefined && used[unit] + requested[unit] > max) {
+          return {
+            error: `Quota exceeded: at most ${describeLimit(limit, unit)}. ${used[unit]} already used, this call needs ${requested[unit]}.`,
+            errorCode: "quota_exceeded",
+            retryable: limit.window !== undefined,
+          };
+        }
+      }
+    }
+    return;
+  };
+
+  return {
+    reserve: async (emails, context) => {
+      const { applicable, missing } = applicableLimits(context);
+      if (missing.length > 0) {
+        if (onMissingIdentity === "reject") {
+          return {
+            ok: false,
+            failure: rejectedError(
+              `Quota limits per ${missing.join(" and ")} need an ID in experimental_context, but none was found.`
+            ),
+          };
+        }
+        logger.warn("Quota limits skipped without an ID", { scopes: missing });
+      }
+      if (emails.length === 0) {
+        return NOTHING_RESERVED;
+      }
+
+      const requested = usageOf(emails);
+      const ttls = new Map<string, number>();
+      for (const { limit, key } of applicable) {
+        ttls.set(key, Math.max(ttls.get(key) ?? 0, windowMs(limit)));
+      }
+
+      return await withKeys([...ttls.keys()], async () => {
+        const failure = await exceededLimit(applicable, requested);
+        if (failure) {
+          return { ok: false, failure };
+        }
+        const records: { key: string; id: string }[] = [];
+        for (const [key, ttlMs] of ttls) {
+          records.push({ key, id: await store.record(key, requested, ttlMs) });
+        }
+        return {
+          ok: true,
+          release: async (unsent: QuotaEmail[]) => {
+            if (unsent.length === 0) {
+              return;
+            }
+            const usage = usageOf(unsent);
+            for (const { key, id } of records) {
+              await store.release(key, id, usage);
+            }
+          },
+        };
+      });
+    },
+  };
+};
@@ -0,0 +1,150 @@
+import type { PolicyViolation } from "./sender-policy.js";
+import { parseEmailAddress } from "./utils.js";
+
+export type RecipientPattern = string | RegExp;
+
+export interface RecipientPolicy {
+  /** Domains, exact addresses, or address patterns recipients must match. All recipients are allowed when empty. */
+  allow?: RecipientPattern[];
+  /** Domains, exact addresses, or address patterns that are never sent to. Takes precedence over `allow`. */
+  deny?: RecipientPattern[];
+  /** Whether a blocked recipient rejects the whole call or is removed from it. Defaults to "reject". */
+  onBlocked?: "reject" | "remove";
+  /** When set, every recipient is replaced with this inbox and the originals are recorded in headers. */
+  sandboxInbox?: string;
+  /** Let `sendBroadcast` run while `sandboxInbox` is set. Broadcasts go to their whole segment and cannot be redirected. */
+  allowBroadcasts?: boolean;
+}
+
+export interface Recipients {
+  to: string[];
+  cc?: string[];
+  bcc?: string[];
+  headers?: Record<string, string>;
+}
+
+export interface SandboxRedirect {
+  inbox: string;
+  originalRecipients: string[];
+}
+
+export type RecipientCheckResult<T extends Recipients> =
+  | {
+      allowed: true;
+      email: T;
+      violations: PolicyViolation[];
+      sandbox?: SandboxRedirect;
+    }
+  | { allowed: false; violations: PolicyViolation[]; error: string };
+
+const RECIPIENT_FIELDS = ["to", "cc", "bcc"] as const;
+
+const ORIGINAL_RECIPIENT_HEADERS = {
+  to: "X-Original-To",
+  cc: "X-Original-Cc",
+  bcc: "X-Original-Bcc",
+} as const;
+
+/**
+ * Strings with an `@` match that exact address, other strings a domain and its
+ * subdomains. `lastIndex` is reset so global and sticky patterns match the same
+ * address the same way every time.
+ */
+const matchesPattern = (recipient: string, pattern: RecipientPattern) => {
+  const { address, domain } = parseEmailAddress(recipient);
+  if (typeof pattern !== "string") {
+    pattern.lastIndex = 0;
+    return pattern.test(address);
+  }
+  const expected = pattern.toLowerCase();
+  if (expected.includes("@")) {
+    return address === parseEmailAddress(expected).address;
+  }
+  return domain === expected || domain.endsWith(`.${expected}`);
+};
+
+const isBlocked = (policy: RecipientPolicy, recipient: string) => {
+  if (policy.deny?.some((pattern) => matchesPattern(recipient, pattern))) {
+    return true;
+  }
+  return Boolean(
+    policy.allow?.length &&
+      !policy.allow.some((pattern) => matchesPattern(recipient, pattern))
+  );
+};
+
+const redirectToSandbox = <T extends Recipients>(email: T, inbox: string) => {
+  const headers: Record<string, string> = { ...email.headers };
+  for (const field of RECIPIENT_FIELDS) {
+    const original = email[field];
+    if (original?.length) {
+      headers[ORIGINAL_RECIPIENT_HEADERS[field]] = original.join(", ");
+    }
+  }
+  return {
+    ...email,
+    to: [inbox],
+    cc: undefined,
+    bcc: undefined,
+    headers,
+  };
+};
+
+export const checkRecipients = <T extends Recipients>(
+  policy: RecipientPolicy,
+  email: T
+): RecipientCheckResult<T> => {
+  const action = policy.onBlocked === "remove" ? "removed" : "rejected";
+  const violations: PolicyViolation[] = [];
+  const filtered = { ...email };
+
+  for (const field of RECIPIENT_FIELDS) {
+    const recipients = email[field];
+    if (!recipients) {
+      continue;
+    }
+    filtered[field] = recipients.filter((recipient) => {
+      if (!isBlocked(policy, recipient)) {
+        return true;
+      }
+      violations.push({
+        field,
+        value: recipient,
+        reason: `Recipient ${parseEmailAddress(recipient).address} is not allowed by the recipient policy`,
+        action,
+      });
+      return false;
+    });
+  }
+
+  if (action === "rejected" && violations.length > 0) {
+    return {
+      allowed: false,
+      violations,
+      error: violations.map((v) => v.reason).join("; "),
+    };
+  }
+  if (filtered.to.length === 0) {
+    return {
+      allowed: false,
+      violations,
+      error: "No allowed recipients remain after applying the recipient policy",
+    };
+  }
+
+  if (!policy.sandboxInbox) {
+    return { allowed: true, email: filtered, violations };
+  }
+
+  return {
+    allowed: true,
+    email: redirectToSandbox(filtered, policy.sandboxInbox),
+    violations,
+    sandbox: {
+      inbox: policy.sandboxInbox,
+      originalRecipients: RECIPIENT_FIELDS.flatMap(
+        (field) => filtered[field] ?? []
+      ),
+    },
+  };
+};
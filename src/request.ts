@@ -0,0 +1,250 @@
+import type { Resend } from "resend";
+import type { Logger } from "./logger.js";
+import { currentToolCall } from "./tool-call.js";
+import { sleep } from "./utils.js";
+
+const DEFAULT_MAX_RETRIES = 2;
+const DEFAULT_BASE_DELAY_MS = 500;
+const DEFAULT_MAX_DELAY_MS = 10_000;
+const DEFAULT_REQUESTS_PER_SECOND = 2;
+const REQUEST_ID_HEADER = "x-request-id";
+
+/** Methods that only read data and can always be retried. */
+const READ_METHODS = new Set(["get", "list"]);
+/** Methods that leave the same state behind when repeated. */
+const IDEMPOTENT_METHODS = new Set([
+  "update",
+  "remove",
+  "cancel",
+  "publish",
+  "verify",
+  "add",
+]);
+
+export interface RetryOptions {
+  /** Retries after the first attempt. Defaults to 2. */
+  maxRetries?: number;
+  /** Delay before the first retry, doubled for each further retry. Defaults to 500ms. */
+  baseDelayMs?: number;
+  /** Longest delay to wait, including `Retry-After`. Defaults to 10 seconds. */
+  maxDelayMs?: number;
+}
+
+export interface RateLimitOptions {
+  /** Requests started per second across all tools. Defaults to 2, Resend's default limit. */
+  requestsPerSecond?: number;
+}
+
+export interface RequestLayer {
+  wrap(client: Resend): Resend;
+}
+
+interface ResendError {
+  message?: string;
+  name?: string;
+  statusCode?: number | null;
+}
+
+interface ResendResponse {
+  error?: ResendError | null;
+  headers?: Record<string, string> | null;
+}
+
+const createTokenBucket = (requestsPerSecond: number) => {
+  let tokens = requestsPerSecond;
+  let refilledAt = Date.now();
+  let queue = Promise.resolve();
+
+  const take = async () => {
+    for (;;) {
+      const now = Date.now();
+      tokens = Math.min(
+        requestsPerSecond,
+        tokens + ((now - refilledAt) / 1000) * requestsPerSecond
+      );
+      refilledAt = now;
+      if (tokens >= 1) {
+        tokens -= 1;
+        return;
+      }
+      await sleep(((1 - tokens) / requestsPerSecond) * 1000);
+    }
+  };
+
+  return {
+    acquire: () => {
+      queue = queue.then(take);
+      return queue;
+    },
+  };
+};
+
+const hasIdempotencyKey = (args: unknown[]) => {
+  const options = args.at(-1);
+  return (
+    typeof options === "object" &&
+    options !== null &&
+    typeof (options as { idempotencyKey?: unknown }).idempotencyKey === "string"
+  );
+};
+
+/**
+ * Rate-limited requests were never processed, so they are safe to repeat.
+ * Server and network errors are only retried when repeating the call cannot
+ * create a second email or resource.
+ */
+const isRetryable = (error: ResendError, idempotent: boolean) => {
+  if (
+    error.statusCode === 429 ||
+    error.name === "rate_limit_exceeded" ||
+    error.name === "concurrent_idempotent_requests"
+  ) {
+    return true;
+  }
+  if (!idempotent) {
+    return false;
+  }
+  return (
+    (error.statusCode ?? 0) >= 500 ||
+    (error.name === "application_error" && error.statusCode == null)
+  );
+};
+
+const parseRetryAfter = (headers: ResendResponse["headers"]) => {
+  const value = headers?.["retry-after"];
+  if (!value) {
+    return;
+  }
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return seconds * 1000;
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+export const createRequestLayer = ({
+  retry,
+  rateLimit,
+  logger,
+}: {
+  retry?: RetryOptions | false;
+  rateLimit?: RateLimitOptions | boolean;
+  logger: Logger;
+}): RequestLayer => {
+  const {
+    maxRetries = DEFAULT_MAX_RETRIES,
+    baseDelayMs = DEFAULT_BASE_DELAY_MS,
+    maxDelayMs = DEFAULT_MAX_DELAY_MS,
+  } = retry === false ? { maxRetries: 0 } : (retry ?? {});
+  const bucket = rateLimit
+    ? createTokenBucket(
+        rateLimit === true
+          ? DEFAULT_REQUESTS_PER_SECOND
+          : (rateLimit.requestsPerSecond ?? DEFAULT_REQUESTS_PER_SECOND)
+      )
+    : undefined;
+
+  const retryDelay = (attempt: number, response?: ResendResponse) => {
+    const retryAfter = parseRetryAfter(response?.headers);
+    if (retryAfter !== undefined) {
+      return retryAfter <= maxDelayMs ? retryAfter : undefined;
+    }
+    const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+    return backoff / 2 + Math.random() * (backoff / 2);
+  };
+
+  const request = async (
+    method: string,
+    args: unknown[],
+    call: () => Promise<unknown>
+  ) => {
+    const name = method.slice(method.lastIndexOf(".") + 1);
+    const idempotent =
+      READ_METHODS.has(name) ||
+      IDEMPOTENT_METHODS.has(name) ||
+      hasIdempotencyKey(args);
+    currentToolCall()?.requests.push(
+      args.length > 1
+        ? { method, payload: args[0], options: args[1] }
+        : { method, payload: args[0] }
+    );
+
+    for (let attempt = 0; ; attempt++) {
+      await bucket?.acquire();
+      const startedAt = Date.now();
+      const response = (await call()) as ResendResponse | undefined;
+      const error = response?.error;
+      const requestId = response?.headers?.[REQUEST_ID_HEADER];
+      const toolCall = currentToolCall();
+      if (requestId) {
+        toolCall?.requestIds.push(requestId);
+      }
+      logger.debug("Resend request", {
+        method,
+        attempt,
+        durationMs: Date.now() - startedAt,
+        requestId,
+        tool: toolCall?.tool,
+        toolCallId: toolCall?.toolCallId,
+        statusCode: error?.statusCode ?? undefined,
+        resendErrorName: error?.name,
+      });
+      if (!error || attempt >= maxRetries || !isRetryable(error, idempotent)) {
+        return response;
+      }
+      const delay = retryDelay(attempt, response);
+      if (delay === undefined) {
+        return response;
+      }
+      logger.warn("Retrying Resend request", {
+        method,
+        attempt: attempt + 1,
+        delayMs: Math.round(delay),
+        requestId,
+        tool: toolCall?.tool,
+        toolCallId: toolCall?.toolCallId,
+        resendErrorName: error.name,
+        error: error.message,
+      });
+      if (toolCall) {
+        toolCall.retries += 1;
+      }
+      await sleep(delay);
+    }
+  };
+
+  const wrapResource = <T extends object>(target: T, path: string): T =>
+    new Proxy(target, {
+      get: (resource, property) => {
+        const value = Reflect.get(resource, property, resource);
+        if (typeof property !== "string") {
+          return value;
+        }
+        if (typeof value === "function") {
+          return (...args: unknown[]) =>
+            request(`${path}.${property}`, args, () =>
+              value.apply(resource, args)
+            );
+        }
+        if (typeof value === "object" && value !== null) {
+          return wrapResource(value, `${path}.${property}`);
+        }
+        return value;
+      },
+    });
+
+  return {
+    wrap: (client) =>
+      new Proxy(client, {
+        get: (target, property) => {
+          const value = Reflect.get(target, property, target);
+          return typeof property === "string" &&
+            typeof value === "object" &&
+            value !== null
+            ? wrapResource(value, property)
+            : value;
+        },
+      }),
+  };
+};
@@ -0,0 +1,873 @@
+import { z } from "zod";
+
+export const DryRunInputSchema = z
+  .boolean()
+  .optional()
+  .describe(
+    "Validate and build the request without calling Resend. Returns the payload that would be sent."
+  );
+
+export const IdempotencyKeyInputSchema = z
+  .string()
+  .max(256)
+  .optional()
+  .describe(
+    "Unique key that prevents this send from happening twice. Reuse the same key when retrying the same send."
+  );
+
+const PayloadSchema = z.record(z.string(), z.unknown());
+
+export const ErrorCodeSchema = z.enum([
+  "validation",
+  "auth",
+  "not_found",
+  "rate_limited",
+  "domain_not_verified",
+  "quota_exceeded",
+  "rejected",
+  "timeout",
+  "undeliverable",
+  "not_configured",
+  "internal",
+]);
+
+const errorFields = {
+  error: z.string().optional().describe("Error message if failed"),
+  errorCode: ErrorCodeSchema.optional().describe(
+    "Category of the error, for deciding how to recover"
+  ),
+  retryable: z
+    .boolean()
+    .optional()
+    .describe("Whether repeating the same call later may succeed"),
+  resendErrorName: z
+    .string()
+    .optional()
+    .describe("Error name returned by Resend (e.g., 'validation_error')"),
+  statusCode: z
+    .number()
+    .optional()
+    .describe("HTTP status code returned by Resend"),
+};
+
+export const PolicyViolationSchema = z.object({
+  field: z.string().describe("Input field that violated the policy"),
+  value: z.string().describe("The offending value"),
+  reason: z.string().describe("Why the value is not allowed"),
+  action: z
+    .enum(["rejected", "rewritten", "removed"])
+    .describe(
+      "Whether the call was rejected, the value was rewritten, or the value was removed"
+    ),
+  index: z
+    .number()
+    .optional()
+    .describe("Index of the affected email in a batch"),
+});
+
+export const SandboxRedirectSchema = z.object({
+  inbox: z.string().describe("Test inbox that received the email instead"),
+  originalRecipients: z
+    .array(z.string())
+    .describe("Recipients the email was originally addressed to"),
+});
+
+export const TemplateValidationSchema = z.object({
+  templateId: z.string().describe("ID or alias of the validated template"),
+  missing: z
+    .array(z.string())
+    .describe("Declared variables without a fallback that were not provided"),
+  unknown: z
+    .array(z.string())
+    .describe("Provided variables the template does not declare"),
+  mistyped: z
+    .array(
+      z.object({
+        key: z.string().describe("Variable key"),
+        expected: z.string().describe("Declared type"),
+        received: z.string().describe("Type of the provided value"),
+      })
+    )
+    .describe("Provided variables whose value has the wrong type"),
+  fallbacks: z
+    .array(
+      z.object({
+        key: z.string().describe("Variable key"),
+        value: z
+          .union([z.string(), z.number()])
+          .describe("Fallback value that will be used"),
+      })
+    )
+    .describe("Variables that were not provided and will use their fallback"),
+});
+
+export const SendResultSchema = z.object({
+  success: z.boolean().describe("Whether the email was sent successfully"),
+  id: z.string().describe("ID of the sent email"),
+  from: z
+    .string()
+    .optional()
+    .describe("Sender address used, if it differs from the requested one"),
+  violations: z
+    .array(PolicyViolationSchema)
+    .optional()
+    .describe("Sending policy violations and how each was handled"),
+  sandbox: SandboxRedirectSchema.optional().describe(
+    "Present when recipients were redirected to the sandbox inbox"
+  ),
+  templateValidation: TemplateValidationSchema.optional().describe(
+    "Result of checking the template variables against the template definition"
+  ),
+  scheduledAt: z
+    .string()
+    .optional()
+    .describe("ISO timestamp the email is scheduled for, if scheduled"),
+  idempotencyKey: z
+    .string()
+    .optional()
+    .describe("Idempotency key used for the send"),
+  duplicate: z
+    .boolean()
+    .optional()
+    .describe(
+      "True when this repeated an earlier send and the original email ID was returned"
+    ),
+  dryRun: z
+    .boolean()
+    .optional()
+    .describe("True when the email was not actually sent"),
+  payload: PayloadSchema.optional().describe(
+    "Resend payload that would have been sent (dry run only)"
+  ),
+  ...errorFields,
+});
+
+export const BatchItemResultSchema = z.object({
+  index: z.number().describe("Position of the email in the input array"),
+  id: z.string().optional().describe("ID of the sent email"),
+  ...errorFields,
+});
+
+export const BatchSendResultSchema = z.object({
+  success: z.boolean().describe("Whether all emails were sent successfully"),
+  ids: z.array(z.string()).describe("IDs of the sent emails"),
+  count: z.number().describe("Number of emails sent"),
+  results: z
+    .array(BatchItemResultSchema)
+    .optional()
+    .describe("Outcome of each email, in input order"),
+  violations: z
+    .array(PolicyViolationSchema)
+    .optional()
+    .describe("Sending policy violations and how each was handled"),
+  sandbox: SandboxRedirectSchema.optional().describe(
+    "Present when recipients were redirected to the sandbox inbox"
+  ),
+  idempotencyKey: z
+    .string()
+    .optional()
+    .describe("Idempotency key used for the batch"),
+  duplicate: z
+    .boolean()
+    .optional()
+    .describe(
+      "True when this repeated an earlier batch and the original email IDs were returned"
+    ),
+  dryRun: z
+    .boolean()
+    .optional()
+    .describe("True when the emails were not actually sent"),
+  payload: z
+    .array(PayloadSchema)
+    .optional()
+    .describe("Resend payloads that would have been sent (dry run only)"),
+  ...errorFields,
+});
+
+export const EmailInfoSchema = z.object({
+  id: z.string().describe("Email ID"),
+  from: z.string().describe("Sender email address"),
+  to: z.array(z.string()).describe("Recipient email addresses"),
+  subject: z.string().describe("Email subject"),
+  lastEvent: z
+    .string()
+    .optional()
+    .describe(
+      "Last delivery event (e.g., 'sent', 'delivered', 'bounced', 'complained')"
+    ),
+  createdAt: z
+    .string()
+    .optional()
+    .describe("ISO timestamp when the email was created"),
+});
+
+export const GetEmailResultSchema = z.object({
+  success: z.boolean().describe("Whether the retrieval succeeded"),
+  id: z.string().describe("Email ID"),
+  from: z.string().optional().describe("Sender email address"),
+  to: z.array(z.string()).optional().describe("Recipient email addresses"),
+  subject: z.string().optional().describe("Email subject"),
+  lastEvent: z.string().optional().describe("Last delivery event if available"),
+  createdAt: z
+    .string()
+    .optional()
+    .describe("ISO timestamp when the email was created"),
+  scheduledAt: z
+    .string()
+    .optional()
+    .describe("ISO timestamp the email is scheduled for, if scheduled"),
+  ...errorFields,
+});
+
+export const EmailEventInfoSchema = z.object({
+  type: z
+    .string()
+    .describe(
+      "Event type (e.g., 'sent', 'delivered', 'delivery_delayed', 'opened', 'clicked', 'bounced', 'complained', 'failed', 'suppressed')"
+    ),
+  createdAt: z.string().describe("ISO timestamp of the event"),
+  bounce: z
+    .object({
+      type: z.string().describe("Bounce type (e.g., 'Permanent')"),
+      subType: z.string().describe("Bounce subtype (e.g., 'Suppressed')"),
+      message: z.string().describe("Reason given by the receiving server"),
+    })
+    .optional()
+    .describe("Bounce details, for bounced events"),
+  link: z.string().optional().describe("Link that was clicked, for clicks"),
+  reason: z
+    .string()
+    .optional()
+    .describe("Why the email failed or was suppressed"),
+});
+
+export const GetEmailEventsResultSchema = z.object({
+  success: z.boolean().describe("Whether the events were retrieved"),
+  emailId: z.string().describe("Email ID"),
+  events: z
+    .array(EmailEventInfoSchema)
+    .describe("Events received for the email, oldest first"),
+  count: z.number().describe("Number of events"),
+  lastEvent: z.string().optional().describe("Type of the most recent event"),
+  ...errorFields,
+});
+
+export const WaitForEmailEventResultSchema = z.object({
+  success: z
+    .boolean()
+    .describe(
+      "Whether the email reached one of the requested events. False when it ended in a final event that was not requested."
+    ),
+  id: z.string().describe("Email ID"),
+  lastEvent: z
+    .string()
+    .optional()
+    .describe("Last delivery event seen before returning"),
+  elapsedMs: z.number().describe("Milliseconds spent waiting"),
+  timedOut: z
+    .boolean()
+    .optional()
+    .describe("True when the timeout expired first"),
+  ...errorFields,
+});
+
+export const UpdateScheduledEmailResultSchema = z.object({
+  success: z.boolean().describe("Whether the email was rescheduled"),
+  id: z.string().describe("ID of the scheduled email"),
+  scheduledAt: z
+    .string()
+    .optional()
+    .describe("ISO timestamp the email is now scheduled for"),
+  dryRun: z
+    .boolean()
+    .optional()
+    .describe("True when the email was not actually rescheduled"),
+  payload: PayloadSchema.optional().describe(
+    "Resend payload that would have been sent (dry run only)"
+  ),
+  ...errorFields,
+});
+
+export const CancelScheduledEmailResultSchema = z.object({
+  success: z.boolean().describe("Whether the email was cancelled"),
+  id: z.string().describe("ID of the cancelled email"),
+  cancelled: z.boolean().describe("Confirms the email will not be sent"),
+  dryRun: z
+    .boolean()
+    .optional()
+    .describe("True when the email was not actually cancelled"),
+  payload: PayloadSchema.optional().describe(
+    "Resend payload that would have been sent (dry run only)"
+  ),
+  ...errorFields,
+});
+
+export const ListEmailsResultSchema = z.object({
+  emails: z.array(EmailInfoSchema).describe("Array of sent email metadata"),
+  count: z.number().describe("Number of emails returned"),
+  hasMore: z
+    .boolean()
+    .optional()
+    .describe("Whether more emails exist after the last one scanned"),
+  nextCursor: z
+    .string()
+    .optional()
+    .describe("Pass as after to fetch the next page"),
+  ...errorFields,
+});
+
+export const CreateContactResultSchema = z.object({
+  success: z.boolean().describe("Whether the contact was created"),
+  id: z.string().describe("ID of the created contact"),
+  dryRun: z
+    .boolean()
+    .optional()
+    .describe("True when the contact was not actually created"),
+  payload: PayloadSchema.optional().describe(
+    "Resend payload that would have been sent (dry run only)"
+  ),
+  ...errorFields,
+});
+
+export const ContactInfoSchema = z.object({
+  id: z.string().describe("Contact ID"),
+  email: z.string().describe("Contact email address"),
+  firstName: z.string().optional().describe("Contact first name"),
+  lastName: z.string().optional().describe("Contact last name"),
+  unsubscribed: z.boolean().describe("Whether the contact is unsubscribed"),
+  createdAt: z
+    .string()
+    .optional()
+    .describe("ISO timestamp when the contact was created"),
+});
+
+export const ListContactsResultSchema = z.object({
+  contacts: z.array(ContactInfoSchema).describe("Array of contacts"),
+  count: z.number().describe("Number of contacts returned"),
+  hasMore: z
+    .boolean()
+    .optional()
+    .describe("Whether more contacts exist after the last one scanned"),
+  nextCursor: z
+    .string()
+    .optional()
+    .describe("Pass as after to fetch the next page"),
+  ...errorFields,
+});
+
+export const RemoveContactResultSchema = z.object({
+  success: z.boolean().describe("Whether the contact was removed"),
+  deleted: z.boolean().describe("Confirms the contact was deleted"),
+  id: z.string().describe("ID of the removed contact"),
+  dryRun: z
+    .boolean()
+    .optional()
+    .describe("True when the contact was not actually removed"),
+  payload: PayloadSchema.optional().describe(
+    "Resend payload that would have been sent (dry run only)"
+  ),
+  ...errorFields,
+});
+
+export const TemplateVariableSchema = z.object({
+  id: z.string().describe("Variable ID"),
+  key: z.string().describe("Variable key used in the template"),
+  type: z.string().describe("Variable type (e.g., string)"),
+  fallbackValue: z
+    .string()
+    .optional()
+    .describe("Default value if the variable is not provided"),
+});
+
+export const TemplateInfoSchema = z.object({
+  id: z.string().describe("Template ID"),
+  name: z.string().describe("Template name"),
+  alias: z.string().optional().describe("Template alias for easy reference"),
+  status: z.string().describe("Template status (e.g., draft, published)"),
+  createdAt: z
+    .string()
+    .optional()
+    .describe("ISO timestamp when the template was created"),
+  updatedAt: z
+    .string()
+    .optional()
+    .describe("ISO timestamp when the template was last updated"),
+  publishedAt: z
+    .string()
+    .optional()
+    .describe("ISO timestamp when the template was published"),
+});
+
+export const GetTemplateResultSchema = z.object({
+  success: z.boolean().describe("Whether the retrieval succeeded"),
+  id: z.string().describe("Template ID"),
+  name: z.string().optional().describe("Template name"),
+  alias: z.string().optional().describe("Template alias"),
+  status: z.string().optional().describe("Template status"),
+  from: z
+    .string()
+    .optional()
+    .describe("Default sender email address set in the template"),
+  subject: z
+    .string()
+    .optional()
+    .describe("Default subject line set in the template"),
+  replyTo: z
+    .string()
+    .optional()
+    .describe("Default reply-to address set in the template"),
+  variables: z
+    .array(TemplateVariableSchema)
+    .optional()
+    .describe("Template variables that can be filled when sending"),
+  createdAt: z.string().optional().describe("ISO timestamp when created"),
+  updatedAt: z.string().optional().describe("ISO timestamp when last updated"),
+  publishedAt: z.string().optional().describe("ISO timestamp when published"),
+  ...errorFields,
+});
+
+export const ListTemplatesResultSchema = z.object({
+  templates: z.array(TemplateInfoSchema).describe("Array of template metadata"),
+  count: z.number().describe("Number of templates returned"),
+  hasMore: z
+    .boolean()
+    .optional()
+    .describe("Whether more templates are available for pagination"),
+  ...errorFields,
+});
+
+export const SaveTemplateResultSchema = GetTemplateResultSchema.extend({
+  success: z.boolean().describe("Whether the template was saved"),
+  violations: z
+    .array(PolicyViolationSchema)
+    .optional()
+    .describe("Sending policy violations and how each was handled"),
+  dryRun: z
+    .boolean()
+    .optional()
+    .describe("True when the template was not actually saved"),
+  payload: PayloadSchema.optional().describe(
+    "Resend payload that would have been sent (dry run only)"
+  ),
+});
+
+export const RemoveTemplateResultSchema = z.object({
+  success: z.boolean().describe("Whether the template was removed"),
+  deleted: z.boolean().describe("Confirms the template was deleted"),
+  id: z.string().describe("ID of the removed template"),
+  dryRun: z
+    .boolean()
+    .optional()
+    .describe("True when the template was not actually removed"),
+  payload: PayloadSchema.optional().describe(
+    "Resend payload that would have been sent (dry run only)"
+  ),
+  ...errorFields,
+});
+
+export const DomainRecordSchema = z.object({
+  record: z.string().describe("Record purpose (e.g., SPF, DKIM, Receiving)"),
+  type: z.string().describe("DNS record type (e.g., MX, TXT, CNAME)"),
+  name: z.string().describe("Host name to create the record on"),
+  value: z.string().describe("Value the record must contain"),
+  ttl: z.string().optional().describe("Suggested TTL"),
+  priority: z.number().optional().describe("Priority for MX records"),
+  status: z
+    .string()
+    .describe(
+      "Verification status of this record (e.g., pending, verified, failed, not_started)"
+    ),
+});
+
+export const DomainInfoSchema = z.object({
+  id: z.string().describe("Domain ID"),
+  name: z.string().describe("Domain name"),
+  status: z
+    .string()
+    .describe(
+      "Verification status (e.g., not_started, pending, verified, failed, temporary_failure)"
+    ),
+  region: z.string().optional().describe("Region the domain sends from"),
+  createdAt: z
+    .string()
+    .optional()
+    .describe("ISO timestamp when the domain was created"),
+});
+
+export const ListDomainsResultSchema = z.object({
+  domains: z.array(DomainInfoSchema).describe("Array of domains"),
+  count: z.number().describe("Number of domains returned"),
+  hasMore: z
+    .boolean()
+    .optional()
+    .describe("Whether more domains are available for pagination"),
+  ...errorFields,
+});
+
+export const GetDomainResultSchema = z.object({
+  success: z.boolean().describe("Whether the retrieval succeeded"),
+  id: z.string().describe("Domain ID"),
+  name: z.string().optional().describe("Domain name"),
+  status: z.string().optional().describe("Overall verification status"),
+  region: z.string().optional().describe("Region the domain sends from"),
+  sending: z
+    .boolean()
+    .optional()
+    .describe("Whether sending is enabled for the domain"),
+  receiving: z
+    .boolean()
+    .optional()
+    .describe("Whether receiving is enabled for the domain"),
+  records: z
+    .array(DomainRecordSchema)
+    .optional()
+    .describe("DNS records to add, each with its own verification status"),
+  createdAt: z.string().optional().describe("ISO timestamp when created"),
+  ...errorFields,
+});
+
+export const CreateDomainResultSchema = z.object({
+  success: z.boolean().describe("Whether the domain was created"),
+  id: z.string().describe("ID of the created domain"),
+  name: z.string().optional().describe("Domain name"),
+  status: z.string().optional().describe("Verification status"),
+  records: z
+    .array(DomainRecordSchema)
+    .optional()
+    .describe("DNS records to add at the domain's DNS provider"),
+  dryRun: z
+    .boolean()
+    .optional()
+    .describe("True when the domain was not actually created"),
+  payload: PayloadSchema.optional().describe(
+    "Resend payload that would have been sent (dry run only)"
+  ),
+  ...errorFields,
+});
+
+export const VerifyDomainResultSchema = z.object({
+  success: z
+    .boolean()
+    .describe("Whether verification was triggered successfully"),
+  id: z.string().describe("Domain ID"),
+  dryRun: z
+    .boolean()
+    .optional()
+    .describe("True when the verification was not actually triggered"),
+  payload: PayloadSchema.optional().describe(
+    "Resend payload that would have been sent (dry run only)"
+  ),
+  ...errorFields,
+});
+
+export const RemoveDomainResultSchema = z.object({
+  success: z.boolean().describe("Whether the domain was removed"),
+  deleted: z.boolean().describe("Confirms the domain was deleted"),
+  id: z.string().describe("ID of the removed domain"),
+  dryRun: z
+    .boolean()
+    .optional()
+    .describe("True when the domain was not actually removed"),
+  payload: PayloadSchema.optional().describe(
+    "Resend payload that would have been sent (dry run only)"
+  ),
+  ...errorFields,
+});
+
+export const BroadcastInfoSchema = z.object({
+  id: z.string().describe("Broadcast ID"),
+  name: z.string().optional().describe("Broadcast name"),
+  segmentId: z.string().optional().describe("ID of the segment it targets"),
+  status: z.string().describe("Broadcast status (e.g., draft, queued, sent)"),
+  createdAt: z
+    .string()
+    .optional()
+    .describe("ISO timestamp when the broadcast was created"),
+  scheduledAt: z
+    .string()
+    .optional()
+    .describe("ISO timestamp when the broadcast is scheduled to send"),
+  sentAt: z
+    .string()
+    .optional()
+    .describe("ISO timestamp when the broadcast was sent"),
+});
+
+export const ListBroadcastsResultSchema = z.object({
+  broadcasts: z.array(BroadcastInfoSchema).describe("Array of broadcasts"),
+  count: z.number().describe("Number of broadcasts returned"),
+  hasMore: z
+    .boolean()
+    .optional()
+    .describe("Whether more broadcasts are available for pagination"),
+  ...errorFields,
+});
+
+export const GetBroadcastResultSchema = z.object({
+  success: z.boolean().describe("Whether the retrieval succeeded"),
+  id: z.string().describe("Broadcast ID"),
+  name: z.string().optional().describe("Broadcast name"),
+  segmentId: z.string().optional().describe("ID of the segment it targets"),
+  topicId: z.string().optional().describe("ID of the topic it is sent under"),
+  status: z.string().optional().describe("Broadcast status"),
+  from: z.string().optional().describe("Sender email address"),
+  subject: z.string().optional().describe("Email subject line"),
+  replyTo: z.array(z.string()).optional().describe("Reply-to email addresses"),
+  previewText: z.string().optional().describe("Inbox preview text"),
+  html: z.string().optional().describe("HTML content"),
+  text: z.string().optional().describe("Plain text content"),
+  createdAt: z.string().optional().describe("ISO timestamp when created"),
+  scheduledAt: z
+    .string()
+    .optional()
+    .describe("ISO timestamp when scheduled to send"),
+  sentAt: z.string().optional().describe("ISO timestamp when sent"),
+  ...errorFields,
+});
+
+export const SaveBroadcastResultSchema = z.object({
+  success: z.boolean().describe("Whether the broadcast was saved"),
+  id: z.string().describe("ID of the broadcast"),
+  violations: z
+    .array(PolicyViolationSchema)
+    .optional()
+    .describe("Sending policy violations and how each was handled"),
+  dryRun: z
+    .boolean()
+    .optional()
+    .describe("True when the broadcast was not actually saved"),
+  payload: PayloadSchema.optional().describe(
+    "Resend payload that would have been sent (dry run only)"
+  ),
+  ...errorFields,
+});
+
+export const SendBroadcastResultSchema = z.object({
+  success: z
+    .boolean()
+    .describe("Whether the broadcast was sent or scheduled successfully"),
+  id: z.string().describe("ID of the broadcast"),
+  scheduledAt: z
+    .string()
+    .optional()
+    .describe("Requested send time if the broadcast was scheduled"),
+  dryRun: z
+    .boolean()
+    .optional()
+    .describe("True when the broadcast was not actually sent"),
+  payload: PayloadSchema.optional().describe(
+    "Resend payload that would have been sent (dry run only)"
+  ),
+  ...errorFields,
+});
+
+export const RemoveBroadcastResultSchema = z.object({
+  success: z.boolean().describe("Whether the broadcast was removed"),
+  deleted: z.boolean().describe("Confirms the broadcast was deleted"),
+  id: z.string().describe("ID of the removed broadcast"),
+  dryRun: z
+    .boolean()
+    .optional()
+    .describe("True when the broadcast was not actually removed"),
+  payload: PayloadSchema.optional().describe(
+    "Resend payload that would have been sent (dry run only)"
+  ),
+  ...errorFields,
+});
+
+export const SegmentInfoSchema = z.object({
+  id: z.string().describe("Segment ID"),
+  name: z.string().describe("Segment name"),
+  createdAt: z
+    .string()
+    .optional()
+    .describe("ISO timestamp when the segment was created"),
+});
+
+export const ListSegmentsResultSchema = z.object({
+  segments: z.array(SegmentInfoSchema).describe("Array of segments"),
+  count: z.number().describe("Number of segments returned"),
+  hasMore: z
+    .boolean()
+    .optional()
+    .describe("Whether more segments are available for pagination"),
+  ...errorFields,
+});
+
+export const GetSegmentResultSchema = z.object({
+  success: z.boolean().describe("Whether the retrieval succeeded"),
+  id: z.string().describe("Segment ID"),
+  name: z.string().optional().describe("Segment name"),
+  createdAt: z.string().optional().describe("ISO timestamp when created"),
+  ...errorFields,
+});
+
+export const CreateSegmentResultSchema = z.object({
+  success: z.boolean().describe("Whether the segment was created"),
+  id: z.string().describe("ID of the created segment"),
+  name: z.string().optional().describe("Segment name"),
+  dryRun: z
+    .boolean()
+    .optional()
+    .describe("True when the segment was not actually created"),
+  payload: PayloadSchema.optional().describe(
+    "Resend payload that would have been sent (dry run only)"
+  ),
+  ...errorFields,
+});
+
+export const RemoveSegmentResultSchema = z.object({
+  success: z.boolean().describe("Whether the segment was removed"),
+  deleted: z.boolean().describe("Confirms the segment was deleted"),
+  id: z.string().describe("ID of the removed segment"),
+  dryRun: z
+    .boolean()
+    .optional()
+    .describe("True when the segment was not actually removed"),
+  payload: PayloadSchema.optional().describe(
+    "Resend payload that would have been sent (dry run only)"
+  ),
+  ...errorFields,
+});
+
+export const ContactSegmentResultSchema = z.object({
+  success: z.boolean().describe("Whether the membership change succeeded"),
+  contact: z.string().describe("ID or email address of the contact"),
+  segmentId: z.string().describe("ID of the segment"),
+  dryRun: z
+    .boolean()
+    .optional()
+    .describe("True when the membership was not actually changed"),
+  payload: PayloadSchema.optional().describe(
+    "Resend payload that would have been sent (dry run only)"
+  ),
+  ...errorFields,
+});
+
+const SubscriptionSchema = z.enum(["opt_in", "opt_out"]);
+
+export const TopicInfoSchema = z.object({
+  id: z.string().describe("Topic ID"),
+  name: z.string().describe("Topic name"),
+  description: z.string().optional().describe("Topic description"),
+  defaultSubscription: SubscriptionSchema.optional().describe(
+    "Subscription status contacts get when they have not chosen one"
+  ),
+  createdAt: z
+    .string()
+    .optional()
+    .describe("ISO timestamp when the topic was created"),
+});
+
+export const ListTopicsResultSchema = z.object({
+  topics: z.array(TopicInfoSchema).describe("Array of topics"),
+  count: z.number().describe("Number of topics returned"),
+  ...errorFields,
+});
+
+export const GetTopicResultSchema = z.object({
+  success: z.boolean().describe("Whether the retrieval succeeded"),
+  id: z.string().describe("Topic ID"),
+  name: z.string().optional().describe("Topic name"),
+  description: z.string().optional().describe("Topic description"),
+  defaultSubscription: SubscriptionSchema.optional().describe(
+    "Subscription status contacts get when they have not chosen one"
+  ),
+  createdAt: z.string().optional().describe("ISO timestamp when created"),
+  ...errorFields,
+});
+
+export const SaveTopicResultSchema = z.object({
+  success: z.boolean().describe("Whether the topic was saved"),
+  id: z.string().describe("ID of the topic"),
+  dryRun: z
+    .boolean()
+    .optional()
+    .describe("True when the topic was not actually saved"),
+  payload: PayloadSchema.optional().describe(
+    "Resend payload that would have been sent (dry run only)"
+  ),
+  ...errorFields,
+});
+
+export const ContactTopicSchema = z.object({
+  id: z.string().describe("Topic ID"),
+  name: z.string().optional().describe("Topic name"),
+  description: z.string().optional().describe("Topic description"),
+  subscription: SubscriptionSchema.describe(
+    "Whether the contact is subscribed to this topic"
+  ),
+});
+
+export const GetContactTopicsResultSchema = z.object({
+  success: z.boolean().describe("Whether the retrieval succeeded"),
+  contact: z.string().describe("ID or email address of the contact"),
+  topics: z
+    .array(ContactTopicSchema)
+    .describe("Topic subscriptions of the contact"),
+  hasMore: z
+    .boolean()
+    .optional()
+    .describe("Whether more topics are available for pagination"),
+  ...errorFields,
+});
+
+export const UpdateContactTopicsResultSchema = z.object({
+  success: z.boolean().describe("Whether the subscriptions were updated"),
+  contact: z.string().describe("ID or email address of the contact"),
+  topics: z
+    .array(
+      z.object({
+        id: z.string().describe("Topic ID"),
+        subscription: SubscriptionSchema.describe("The applied subscription"),
+      })
+    )
+    .describe("Subscriptions that were applied"),
+  dryRun: z
+    .boolean()
+    .optional()
+    .describe("True when the subscriptions were not actually changed"),
+  payload: PayloadSchema.optional().describe(
+    "Resend payload that would have been sent (dry run only)"
+  ),
+  ...errorFields,
+});
+
+export const GetContactResultSchema = z.object({
+  success: z.boolean().describe("Whether the retrieval succeeded"),
+  id: z.string().describe("Contact ID"),
+  email: z.string().optional().describe("Contact email address"),
+  firstName: z.string().optional().describe("Contact first name"),
+  lastName: z.string().optional().describe("Contact last name"),
+  unsubscribed: z
+    .boolean()
+    .optional()
+    .describe("Whether the contact is unsubscribed from all emails"),
+  createdAt: z.string().optional().describe("ISO timestamp when created"),
+  properties: z
+    .record(z.string(), z.union([z.string(), z.number()]))
+    .optional()
+    .describe("Custom contact properties"),
+  segments: z
+    .array(SegmentInfoSchema)
+    .optional()
+    .describe("Segments the contact belongs to"),
+  topics: z
+    .array(ContactTopicSchema)
+    .optional()
+    .describe("Topic subscriptions of the contact"),
+  ...errorFields,
+});
+
+export const UpdateContactResultSchema = z.object({
+  success: z.boolean().describe("Whether the contact was updated"),
+  id: z.string().describe("ID of the updated contact"),
+  dryRun: z
+    .boolean()
+    .optional()
+    .describe("True when the contact was not actually updated"),
+  payload: PayloadSchema.optional().describe(
+    "Resend payload that would have been sent (dry run only)"
+  ),
+  ...errorFields,
+});
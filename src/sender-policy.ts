@@ -0,0 +1,112 @@
+import { parseEmailAddress } from "./utils.js";
+
+export interface SenderPolicy {
+  /** Domains the `from` address may use. Defaults to the configured `emailDomain`. */
+  allowedDomains?: string[];
+  /** Exact sender addresses that are allowed regardless of domain. */
+  allowedAddresses?: string[];
+  /** Display names (exact strings or patterns) the `from` field may use. */
+  allowedNames?: (string | RegExp)[];
+  /** Sender used when a violating `from` is rewritten. */
+  defaultFrom?: string;
+  /** Whether to reject violating senders or rewrite them to `defaultFrom`. Defaults to "reject". */
+  onViolation?: "reject" | "rewrite";
+}
+
+export interface PolicyViolation {
+  field: string;
+  value: string;
+  reason: string;
+  action: "rejected" | "rewritten" | "removed";
+  index?: number;
+}
+
+export type SenderCheckResult =
+  | { allowed: true; from: string; violation?: PolicyViolation }
+  | { allowed: false; violation: PolicyViolation };
+
+export const resolveSenderPolicy = (
+  policy: SenderPolicy | undefined,
+  emailDomain: string
+): SenderPolicy => ({
+  ...policy,
+  allowedDomains:
+    policy?.allowedDomains ?? (emailDomain ? [emailDomain] : undefined),
+});
+
+/** `lastIndex` is reset so global and sticky patterns match the same name every time. */
+const matchesName = (name: string, pattern: string | RegExp) => {
+  if (typeof pattern === "string") {
+    return pattern === name;
+  }
+  pattern.lastIndex = 0;
+  return pattern.test(name);
+};
+
+const findSenderViolation = (
+  policy: SenderPolicy,
+  from: string
+): string | undefined => {
+  const { name, address, domain } = parseEmailAddress(from);
+  const domains = policy.allowedDomains?.map((d) => d.toLowerCase()) ?? [];
+  const addresses = policy.allowedAddresses?.map((a) => a.toLowerCase()) ?? [];
+
+  if (
+    (domains.length > 0 || addresses.length > 0) &&
+    !domains.includes(domain) &&
+    !addresses.includes(address)
+  ) {
+    const allowed = [...domains.map((d) => `@${d}`), ...addresses].join(", ");
+    return `Sender ${address} is not allowed. Use an address matching: ${allowed}`;
+  }
+
+  if (
+    name &&
+    policy.allowedNames &&
+    !policy.allowedNames.some((pattern) => matchesName(name, pattern))
+  ) {
+    return `Sender name "${name}" is not allowed`;
+  }
+
+  return undefined;
+};
+
+export const checkSender = (
+  policy: SenderPolicy,
+  from: string
+): SenderCheckResult => {
+  const reason = findSenderViolation(policy, from);
+  if (!reason) {
+    return { allowed: true, from };
+  }
+
+  if (policy.onViolation === "rewrite" && policy.defaultFrom) {
+    return {
+      allowed: true,
+      from: policy.defaultFrom,
+      violation: { field: "from", value: from, reason, action: "rewritten" },
+    };
+  }
+
+  return {
+    allowed: false,
+    violation: { field: "from", value: from, reason, action: "rejected" },
+  };
+};
+
+export const describeSenderPolicy = (policy: SenderPolicy): string => {
+  const allowed = [
+    ...(policy.allowedDomains ?? []).map((d) => `@${d}`),
+    ...(policy.allowedAddresses ?? []),
+  ];
+  let description = "";
+  if (allowed.length > 0) {
+    description += ` Must use one of: ${allowed.join(", ")}.`;
+  }
+  if (policy.defaultFrom && policy.onViolation === "rewrite") {
+    description += ` Other senders are replaced with ${policy.defaultFrom}.`;
+  } else if (policy.defaultFrom) {
+    description += ` Use ${policy.defaultFrom} unless told otherwise.`;
+  }
+  return description;
+};
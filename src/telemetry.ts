@@ -0,0 +1,139 @@
+import type { Attributes } from "@opentelemetry/api";
+import type { RedactionOptions } from "./logger.js";
+import type { ToolCall } from "./tool-call.js";
+import { emailsInInput, recipientsOf } from "./utils.js";
+
+const TRACER_NAME = "resend-ai-sdk";
+
+type OpenTelemetry = typeof import("@opentelemetry/api");
+
+interface ToolOutcome {
+  error?: string;
+  errorCode?: string;
+}
+
+let openTelemetry: Promise<OpenTelemetry | undefined> | undefined;
+
+/** Resolves to undefined when `@opentelemetry/api` is not installed. */
+const loadOpenTelemetry = () => {
+  openTelemetry ??= import("@opentelemetry/api").catch(() => undefined);
+  return openTelemetry;
+};
+
+const templateIdOf = (input: Record<string, unknown>) => {
+  const template = input.template as { id?: unknown } | undefined;
+  const id = template?.id ?? input.templateId;
+  return typeof id === "string" ? id : undefined;
+};
+
+/**
+ * Describes the input without its content. Addresses and subjects are only
+ * recorded when their redaction is turned off; bodies never are.
+ */
+const inputAttributes = (
+  input: unknown,
+  { emails: redactEmails = true, subjects = true }: RedactionOptions
+): Attributes => {
+  if (typeof input !== "object" || input === null) {
+    return {};
+  }
+  const fields = input as Record<string, unknown>;
+  const attributes: Attributes = {};
+
+  const emails = emailsInInput(fields);
+  if (Array.isArray(fields.emails)) {
+    attributes["resend.batch_size"] = emails.length;
+  }
+  if (emails.length > 0) {
+    attributes["resend.recipient_count"] = emails.flatMap(recipientsOf).length;
+  }
+  if (!redactEmails && Array.isArray(fields.to)) {
+    attributes["resend.email.to"] = fields.to.map(String);
+  }
+  if (!subjects && typeof fields.subject === "string") {
+    attributes["resend.email.subject"] = fields.subject;
+  }
+  const templateId = templateIdOf(fields);
+  if (templateId) {
+    attributes["resend.template_id"] = templateId;
+  }
+  return attributes;
+};
+
+const callAttributes = (call: ToolCall): Attributes => {
+  const requestId = call.requestIds.at(-1);
+  return {
+    "resend.retries": call.retries,
+    ...(requestId ? { "resend.request_id": requestId } : {}),
+  };
+};
+
+/**
+ * Runs a tool call inside an active span, so it nests under the AI SDK's own
+ * tool call span and any spans created during the call nest under it. Calls run
+ * untraced when telemetry is off or `@opentelemetry/api` is missing.
+ */
+export const traceToolCall = async <T extends ToolOutcome>(
+  {
+    enabled,
+    redact,
+    call,
+    input,
+  }: {
+    enabled: boolean;
+    redact: RedactionOptions;
+    call: ToolCall;
+    input: unknown;
+  },
+  run: () => Promise<T>
+): Promise<T> => {
+  const api = enabled ? await loadOpenTelemetry() : undefined;
+  if (!api) {
+    return run();
+  }
+
+  const tracer = api.trace.getTracer(TRACER_NAME);
+  return tracer.startActiveSpan(
+    `resend.${call.tool}`,
+    {
+      kind: api.SpanKind.CLIENT,
+      attributes: {
+        "resend.tool": call.tool,
+        ...(call.toolCallId ? { "resend.tool_call_id": call.toolCallId } : {}),
+        ...inputAttributes(input, redact),
+      },
+    },
+    async (span) => {
+      try {
+        const result = await run();
+        const failed = result.error !== undefined;
+        span.setAttributes({
+          ...callAttributes(call),
+          "resend.outcome": failed ? "error" : "success",
+          ...(result.errorCode
+            ? { "resend.error_code": result.errorCode }
+            : {}),
+        });
+        if (failed) {
+          span.setStatus({
+            code: api.SpanStatusCode.ERROR,
+            message: result.errorCode,
+          });
+        }
+        return result;
+      } catch (error) {
+        span.setAttributes({
+          ...callAttributes(call),
+          "resend.outcome": "exception",
+        });
+        span.setStatus({
+          code: api.SpanStatusCode.ERROR,
+          message: error instanceof Error ? error.name : undefined,
+        });
+        throw error;
+      } finally {
+        span.end();
+      }
+    }
+  );
+};
@@ -0,0 +1,143 @@
+import type { Resend } from "resend";
+import { type ToolError, toToolError, validationError } from "./errors.js";
+
+export type TemplateVariableValue = string | number;
+
+export interface TemplateValidation {
+  templateId: string;
+  missing: string[];
+  unknown: string[];
+  mistyped: { key: string; expected: string; received: string }[];
+  fallbacks: { key: string; value: TemplateVariableValue }[];
+}
+
+export type TemplateCheck =
+  | { valid: true; validation?: TemplateValidation }
+  | { valid: false; failure: ToolError; validation?: TemplateValidation };
+
+interface DeclaredVariable {
+  key: string;
+  type: string;
+  fallbackValue?: TemplateVariableValue;
+}
+
+const toDeclaredVariables = (value: unknown): DeclaredVariable[] =>
+  ((value as Record<string, unknown>[] | null | undefined) ?? []).map(
+    (variable) => {
+      const fallback = variable.fallback_value ?? variable.fallbackValue;
+      return {
+        key: String(variable.key ?? ""),
+        type: String(variable.type ?? "string"),
+        fallbackValue:
+          typeof fallback === "string" || typeof fallback === "number"
+            ? fallback
+            : undefined,
+      };
+    }
+  );
+
+const validateTemplateVariables = (
+  templateId: string,
+  declared: DeclaredVariable[],
+  variables: Record<string, TemplateVariableValue> = {}
+): TemplateValidation => {
+  const validation: TemplateValidation = {
+    templateId,
+    missing: [],
+    unknown: [],
+    mistyped: [],
+    fallbacks: [],
+  };
+  const declaredKeys = new Set(declared.map((variable) => variable.key));
+
+  for (const variable of declared) {
+    const value = variables[variable.key];
+    if (value === undefined) {
+      if (variable.fallbackValue === undefined) {
+        validation.missing.push(variable.key);
+      } else {
+        validation.fallbacks.push({
+          key: variable.key,
+          value: variable.fallbackValue,
+        });
+      }
+    } else if (typeof value !== variable.type) {
+      validation.mistyped.push({
+        key: variable.key,
+        expected: variable.type,
+        received: typeof value,
+      });
+    }
+  }
+
+  for (const key of Object.keys(variables)) {
+    if (!declaredKeys.has(key)) {
+      validation.unknown.push(key);
+    }
+  }
+
+  return validation;
+};
+
+const describeProblems = ({ missing, unknown, mistyped }: TemplateValidation) =>
+  [
+    missing.length > 0 ? `missing ${missing.join(", ")}` : undefined,
+    unknown.length > 0 ? `unknown ${unknown.join(", ")}` : undefined,
+    mistyped.length > 0
+      ? `wrong type for ${mistyped
+          .map(({ key, expected }) => `${key} (expected ${expected})`)
+          .join(", ")}`
+      : undefined,
+  ].filter((problem): problem is string => problem !== undefined);
+
+/**
+ * Fetches the template definition and checks the variables against it.
+ * Unpublished templates are rejected because Resend only sends the published version.
+ */
+export const checkTemplate = async (
+  resend: Resend,
+  template: { id: string; variables?: Record<string, TemplateVariableValue> }
+): Promise<TemplateCheck> => {
+  const { data, error } = await resend.templates.get(template.id);
+  if (error) {
+    return { valid: false, failure: toToolError(error) };
+  }
+  if (!data) {
+    return {
+      valid: false,
+      failure: {
+        error: `Template "${template.id}" was not found`,
+        errorCode: "not_found",
+        retryable: false,
+      },
+    };
+  }
+
+  const definition = data as unknown as Record<string, unknown>;
+  if (definition.status !== "published") {
+    return {
+      valid: false,
+      failure: validationError(
+        `Template "${template.id}" is not published (status: ${String(definition.status ?? "unknown")}). Publish it with publishTemplate before sending.`
+      ),
+    };
+  }
+
+  const validation = validateTemplateVariables(
+    template.id,
+    toDeclaredVariables(definition.variables),
+    template.variables
+  );
+  const problems = describeProblems(validation);
+  if (problems.length > 0) {
+    return {
+      valid: false,
+      validation,
+      failure: validationError(
+        `Template variables do not match template "${template.id}": ${problems.join("; ")}`
+      ),
+    };
+  }
+
+  return { valid: true, validation };
+};
@@ -0,0 +1,837 @@
+import { randomUUID } from "node:crypto";
+import type { Resend } from "resend";
+
+const MAX_RECIPIENTS = 50;
+const MAX_BATCH_SIZE = 100;
+const DEFAULT_PAGE_SIZE = 20;
+const UPPERCASE = /[A-Z]/g;
+
+type Fields = Record<string, unknown>;
+
+export interface FakeResendError {
+  name: string;
+  statusCode: number | null;
+  message: string;
+}
+
+/** A preset error or one written out in full. */
+export type FakeFailure =
+  | "rate_limit"
+  | "validation"
+  | "not_found"
+  | "server_error"
+  | FakeResendError;
+
+export interface FailOptions {
+  /** How many calls fail before the method works again. Defaults to 1. */
+  times?: number;
+}
+
+/** Exact text or a pattern. */
+export type TextMatcher = string | RegExp;
+
+export interface EmailMatcher {
+  /** Any `to` address. */
+  to?: TextMatcher;
+  /** Any `cc` address. */
+  cc?: TextMatcher;
+  /** Any `bcc` address. */
+  bcc?: TextMatcher;
+  from?: TextMatcher;
+  subject?: TextMatcher;
+  /** Text or a pattern found anywhere in the HTML body. */
+  html?: TextMatcher;
+  /** Text or a pattern found anywhere in the plain text body. */
+  text?: TextMatcher;
+  templateId?: string;
+}
+
+/**
+ * A stored email, shaped like Resend's API returns it. `template` and
+ * `attachments` are kept from the send so tests can assert on them.
+ */
+export interface FakeEmail {
+  object: "email";
+  id: string;
+  from: string;
+  to: string[];
+  cc: string[] | null;
+  bcc: string[] | null;
+  reply_to: string[] | null;
+  subject: string;
+  html: string | null;
+  text: string | null;
+  tags?: { name: string; value: string }[];
+  template?: { id: string; variables?: Fields };
+  attachments?: Fields[];
+  created_at: string;
+  scheduled_at: string | null;
+  last_event: string;
+}
+
+export interface FakeResend {
+  /** Pass as the `client` option of `createResendTools`. */
+  client: Resend;
+  /** Every accepted email, oldest first. */
+  readonly emails: FakeEmail[];
+  /** Emails waiting for their `scheduled_at`, oldest first. */
+  readonly scheduledEmails: FakeEmail[];
+  readonly contacts: Fields[];
+  readonly templates: Fields[];
+  readonly domains: Fields[];
+  readonly broadcasts: Fields[];
+  readonly segments: Fields[];
+  readonly topics: Fields[];
+  /** Every call made to the client, such as `emails.send`, in order. */
+  readonly calls: { method: string; args: unknown[] }[];
+  /** Makes the next calls to a method, such as `emails.send`, return an error. */
+  fail(method: string, failure?: FakeFailure, options?: FailOptions): void;
+  /** Moves an email to a delivery event such as `bounced` or `opened`. */
+  setLastEvent(emailId: string, event: string): void;
+  /** Returns the first email matching every given field, or throws. */
+  expectEmailSent(matcher?: EmailMatcher): FakeEmail;
+  /** Throws when any email matches every given field. */
+  expectNoEmailSent(matcher?: EmailMatcher): void;
+  /** Forgets every record, call, and scripted failure. */
+  reset(): void;
+}
+
+const PRESETS: Record<Exclude<FakeFailure, object>, FakeResendError> = {
+  rate_limit: {
+    name: "rate_limit_exceeded",
+    statusCode: 429,
+    message: "Too many requests. You can only make 2 requests per second.",
+  },
+  validation: {
+    name: "validation_error",
+    statusCode: 422,
+    message: "Invalid request.",
+  },
+  not_found: {
+    name: "not_found",
+    statusCode: 404,
+    message: "The requested resource was not found.",
+  },
+  server_error: {
+    name: "internal_server_error",
+    statusCode: 500,
+    message: "An unexpected error occurred.",
+  },
+};
+
+const now = () => new Date().toISOString();
+
+const toArray = (value: unknown): string[] | null => {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  return (Array.isArray(value) ? value : [value]).map(String);
+};
+
+/** Converts top-level camelCase keys to the API's snake_case. */
+const toApiFields = (payload: unknown): Fields =>
+  Object.fromEntries(
+    Object.entries((payload ?? {}) as Fields)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => [
+        key.replace(UPPERCASE, (letter) => `_${letter.toLowerCase()}`),
+        value,
+      ])
+  );
+
+const toIsoDate = (value: unknown) => {
+  if (typeof value !== "string") {
+    return null;
+  }
+  const parsed = Date.parse(value);
+  return Number.isNaN(parsed) ? value : new Date(parsed).toISOString();
+};
+
+const matchesText = (
+  value: string | null | undefined,
+  matcher: TextMatcher,
+  partial = false
+) => {
+  if (value === null || value === undefined) {
+    return false;
+  }
+  if (matcher instanceof RegExp) {
+    matcher.lastIndex = 0;
+    return matcher.test(value);
+  }
+  return partial ? value.includes(matcher) : value === matcher;
+};
+
+const matchesAny = (values: string[] | null, matcher: TextMatcher) =>
+  (values ?? []).some((value) =>
+    matchesText(value.toLowerCase(), lowerCased(matcher))
+  );
+
+/** Addresses are compared lowercased, so patterns must ignore case too. */
+const lowerCased = (matcher: TextMatcher) => {
+  if (typeof matcher === "string") {
+    return matcher.toLowerCase();
+  }
+  return matcher.flags.includes("i")
+    ? matcher
+    : new RegExp(matcher.source, `${matcher.flags}i`);
+};
+
+const matchesEmail = (email: FakeEmail, matcher: EmailMatcher) =>
+  (matcher.to === undefined || matchesAny(email.to, matcher.to)) &&
+  (matcher.cc === undefined || matchesAny(email.cc, matcher.cc)) &&
+  (matcher.bcc === undefined || matchesAny(email.bcc, matcher.bcc)) &&
+  (matcher.from === undefined || matchesText(email.from, matcher.from)) &&
+  (matcher.subject === undefined ||
+    matchesText(email.subject, matcher.subject)) &&
+  (matcher.html === undefined || matchesText(email.html, matcher.html, true)) &&
+  (matcher.text === undefined || matchesText(email.text, matcher.text, true)) &&
+  (matcher.templateId === undefined ||
+    email.template?.id === matcher.templateId);
+
+const describeMatcher = (matcher: EmailMatcher) =>
+  Object.entries(matcher)
+    .map(([key, value]) => `${key} ${String(value)}`)
+    .join(", ") || "any fields";
+
+const describeEmails = (emails: FakeEmail[]) =>
+  emails.length === 0
+    ? "No emails were sent."
+    : `Sent emails:\n${emails
+        .map((email) => `- to ${email.to.join(", ")}: "${email.subject}"`)
+        .join("\n")}`;
+
+/**
+ * Validates a send the way Resend does before accepting it. Returns the error
+ * message, or undefined when the email can be sent.
+ */
+const invalidEmail = (payload: Fields, templates: Map<string, Fields>) => {
+  const template = payload.template as { id?: string } | undefined;
+  if (template?.id && !findTemplate(templates, template.id)) {
+    return `Template ${template.id} not found.`;
+  }
+  if (!(payload.from || template)) {
+    return "Missing `from` field.";
+  }
+  const to = toArray(payload.to) ?? [];
+  if (to.length === 0) {
+    return "Missing `to` field.";
+  }
+  if (to.length > MAX_RECIPIENTS) {
+    return `Too many recipients. The maximum is ${MAX_RECIPIENTS}.`;
+  }
+  if (!(payload.subject || template)) {
+    return "Missing `subject` field.";
+  }
+  return;
+};
+
+const findTemplate = (templates: Map<string, Fields>, idOrAlias: string) =>
+  templates.get(idOrAlias) ??
+  [...templates.values()].find((template) => template.alias === idOrAlias);
+
+const paginate = (
+  items: Fields[],
+  { limit = DEFAULT_PAGE_SIZE, after, before }: Fields = {}
+) => {
+  // Resend lists newest first.
+  const newestFirst = [...items].reverse();
+  const size = Number(limit);
+  if (typeof before === "string") {
+    const end = newestFirst.findIndex((item) => item.id === before);
+    const start = Math.max(0, end - size);
+    return {
+      object: "list",
+      has_more: start > 0,
+      data: newestFirst.slice(start, Math.max(end, 0)),
+    };
+  }
+  const start =
+    typeof after === "string"
+      ? newestFirst.findIndex((item) => item.id === after) + 1
+      : 0;
+  return {
+    object: "list",
+    has_more: start + size < newestFirst.length,
+    data: newestFirst.slice(start, start + size),
+  };
+};
+
+/**
+ * Creates an in-memory stand-in for the Resend client. It stores what the tools
+ * send and create, answers reads from that state, and can be scripted to fail,
+ * so tool calls can be tested without network access or an API key.
+ */
+export const createFakeResend = (): FakeResend => {
+  const emails = new Map<string, FakeEmail>();
+  const contacts = new Map<string, Fields>();
+  const templates = new Map<string, Fields>();
+  const domains = new Map<string, Fields>();
+  const broadcasts = new Map<string, Fields>();
+  const segments = new Map<string, Fields>();
+  const topics = new Map<string, Fields>();
+  const contactSegments = new Map<string, Set<string>>();
+  const contactTopics = new Map<string, Map<string, string>>();
+  const idempotencyKeys = new Map<string, unknown>();
+  const failures = new Map<string, { error: FakeResendError; times: number }>();
+  const calls: { method: string; args: unknown[] }[] = [];
+  let requestCount = 0;
+
+  const headers = (extra: Record<string, string> = {}) => {
+    requestCount += 1;
+    return { "x-request-id": `req_fake_${requestCount}`, ...extra };
+  };
+  const ok = (data: unknown) => ({ data, error: null, headers: headers() });
+  const failed = (
+    error: FakeResendError,
+    extraHeaders?: Record<string, string>
+  ) => ({ data: null, error, headers: headers(extraHeaders) });
+  const invalid = (message: string) =>
+    failed({ name: "validation_error", statusCode: 422, message });
+  const notFound = (resource: string) =>
+    failed({
+      name: "not_found",
+      statusCode: 404,
+      message: `${resource} not found.`,
+    });
+
+  /** Returns the stored record, or sends a `not_found` response. */
+  const withRecord = (
+    collection: Map<string, Fields>,
+    resource: string,
+    id: unknown,
+    run: (record: Fields) => unknown
+  ) => {
+    const record = collection.get(String(id));
+    return record ? run(record) : notFound(resource);
+  };
+
+  const crud = (
+    collection: Map<string, Fields>,
+    object: string,
+    resource: string,
+    create: (payload: Fields) => Fields
+  ) => ({
+    create: (payload: Fields) => {
+      const record = {
+        object,
+        id: randomUUID(),
+        created_at: now(),
+        ...create(payload),
+      };
+      collection.set(record.id, record);
+      return ok({ object, id: record.id });
+    },
+    get: (id: string) =>
+      withRecord(collection, resource, id, (record) => ok(record)),
+    list: (options?: Fields) => ok(paginate([...collection.values()], options)),
+    remove: (id: string) =>
+      withRecord(collection, resource, id, () => {
+        collection.delete(id);
+        return ok({ object, id, deleted: true });
+      }),
+  });
+
+  const idempotent = (key: unknown, send: () => { data: unknown }) => {
+    if (typeof key === "string" && idempotencyKeys.has(key)) {
+      return ok(idempotencyKeys.get(key));
+    }
+    const response = send();
+    if (typeof key === "string" && response.data) {
+      idempotencyKeys.set(key, response.data);
+    }
+    return response;
+  };
+
+  const storeEmail = (payload: Fields): FakeEmail => {
+    const template = payload.template as FakeEmail["template"];
+    const templateFields = template
+      ? (findTemplate(templates, template.id) ?? {})
+      : {};
+    const scheduledAt = toIsoDate(payload.scheduledAt);
+    const email: FakeEmail = {
+      object: "email",
+      id: randomUUID(),
+      from: String(payload.from ?? templateFields.from ?? ""),
+      to: toArray(payload.to) ?? [],
+      cc: toArray(payload.cc),
+      bcc: toArray(payload.bcc),
+      reply_to: toArray(payload.replyTo),
+      subject: String(payload.subject ?? templateFields.subject ?? ""),
+      html: (payload.html as string | undefined) ?? null,
+      text: (payload.text as string | undefined) ?? null,
+      tags: payload.tags as FakeEmail["tags"],
+      template,
+      attachments: payload.attachments as Fields[] | undefined,
+      created_at: now(),
+      scheduled_at: scheduledAt,
+      last_event: scheduledAt ? "scheduled" : "delivered",
+    };
+    emails.set(email.id, email);
+    return email;
+  };
+
+  const withScheduledEmail = (id: string, run: (email: FakeEmail) => void) => {
+    const email = emails.get(id);
+    if (!email) {
+      return notFound("Email");
+    }
+    if (email.last_event !== "scheduled") {
+      return invalid("Only scheduled emails can be changed.");
+    }
+    run(email);
+    return ok({ object: "email", id });
+  };
+
+  // Like the SDK, which puts the ID or email into the URL path, an `id` with
+  // an `@` is looked up as an email address.
+  const findContact = (lookup: unknown) => {
+    const fields =
+      typeof lookup === "string" ? { id: lookup } : ((lookup ?? {}) as Fields);
+    const key = fields.id ?? fields.contactId ?? fields.email;
+    if (typeof key !== "string") {
+      return;
+    }
+    return key.includes("@")
+      ? [...contacts.values()].find((contact) => contact.email === key)
+      : contacts.get(key);
+  };
+
+  const withContact = (lookup: unknown, run: (contact: Fields) => unknown) => {
+    const contact = findContact(lookup);
+    return contact ? run(contact) : notFound("Contact");
+  };
+
+  const segmentsOf = (contactId: string) => {
+    const ids = contactSegments.get(contactId) ?? new Set<string>();
+    contactSegments.set(contactId, ids);
+    return ids;
+  };
+
+  const topicsOf = (contactId: string) => {
+    const subscriptions =
+      contactTopics.get(contactId) ?? new Map<string, string>();
+    contactTopics.set(contactId, subscriptions);
+    return subscriptions;
+  };
+
+  const templateVariables = (variables: unknown) =>
+    Array.isArray(variables)
+      ? variables.map((variable) => ({
+          id: randomUUID(),
+          ...toApiFields(variable),
+          created_at: now(),
+          updated_at: now(),
+        }))
+      : undefined;
+
+  const templateFields = (payload: Fields) => {
+    const { variables, ...fields } = toApiFields(payload);
+    const converted = templateVariables(variables);
+    return converted ? { ...fields, variables: converted } : fields;
+  };
+
+  const templateRecords = crud(
+    templates,
+    "template",
+    "Template",
+    (payload) => ({
+      alias: null,
+      status: "draft",
+      published_at: null,
+      updated_at: now(),
+      ...templateFields(payload),
+    })
+  );
+
+  const client = {
+    emails: {
+      send: (payload: Fields, options?: Fields) =>
+        idempotent(options?.idempotencyKey, () => {
+          const message = invalidEmail(payload, templates);
+          return message
+            ? invalid(message)
+            : ok({ id: storeEmail(payload).id });
+        }),
+      get: (id: string) => {
+        const email = emails.get(id);
+        return email ? ok(email) : notFound("Email");
+      },
+      list: (options?: Fields) =>
+        ok(paginate([...emails.values()] as unknown as Fields[], options)),
+      update: ({ id, scheduledAt }: Fields) =>
+        withScheduledEmail(String(id), (email) => {
+          email.scheduled_at = toIsoDate(scheduledAt);
+        }),
+      cancel: (id: string) =>
+        withScheduledEmail(id, (email) => {
+          email.last_event = "canceled";
+        }),
+    },
+    batch: {
+      send: (payloads: Fields[], options?: Fields) =>
+        idempotent(options?.idempotencyKey, () => {
+          if (payloads.length > MAX_BATCH_SIZE) {
+            return invalid(
+              `Too many emails. The maximum is ${MAX_BATCH_SIZE} per batch.`
+            );
+          }
+          const errors = payloads.flatMap((payload, index) => {
+            const message = invalidEmail(payload, templates);
+            return message ? [{ index, message }] : [];
+          });
+          if (errors.length > 0 && options?.batchValidation !== "permissive") {
+            const [first] = errors;
+            return invalid(`emails[${first?.index}]: ${first?.message}`);
+          }
+          const rejected = new Set(errors.map(({ index }) => index));
+          const data = payloads
+            .filter((_, index) => !rejected.has(index))
+            .map((payload) => ({ id: storeEmail(payload).id }));
+          return ok(errors.length > 0 ? { data, errors } : { data });
+        }),
+    },
+    contacts: {
+      create: (payload: Fields) => {
+        if (!payload.email) {
+          return invalid("Missing `email` field.");
+        }
+        const {
+          segments: memberships,
+          topics: subscriptions,
+          ...fields
+        } = toApiFields(payload);
+        const contact = {
+          object: "contact",
+          id: randomUUID(),
+          unsubscribed: false,
+          created_at: now(),
+          ...fields,
+        };
+        contacts.set(contact.id, contact);
+        for (const { id } of (memberships ?? []) as { id: string }[]) {
+          segmentsOf(contact.id).add(id);
+        }
+        for (const { id, subscription } of (subscriptions ?? []) as Fields[]) {
+          topicsOf(contact.id).set(String(id), String(subscription));
+        }
+        return ok({ object: "contact", id: contact.id });
+      },
+      get: (lookup: unknown) => withContact(lookup, (contact) => ok(contact)),
+      list: (options?: Fields) => {
+        const segmentId = options?.segmentId;
+        const members = [...contacts.values()].filter(
+          (contact) =>
+            typeof segmentId !== "string" ||
+            segmentsOf(String(contact.id)).has(segmentId)
+        );
+        return ok(paginate(members, options));
+      },
+      update: (payload: Fields) =>
+        withContact(payload, (contact) => {
+          const { id: _id, email: _email, ...changes } = toApiFields(payload);
+          Object.assign(contact, changes);
+          return ok({ object: "contact", id: contact.id });
+        }),
+      remove: (lookup: unknown) =>
+        withContact(lookup, (contact) => {
+          contacts.delete(String(contact.id));
+          return ok({ object: "contact", id: contact.id, deleted: true });
+        }),
+      segments: {
+        list: (lookup: Fields) =>
+          withContact(lookup, (contact) =>
+            ok(
+              paginate(
+                [...segmentsOf(String(contact.id))].flatMap((id) => {
+                  const segment = segments.get(id);
+                  return segment ? [segment] : [];
+                }),
+                lookup
+              )
+            )
+          ),
+        add: ({ segmentId, ...lookup }: Fields) =>
+          withContact(lookup, (contact) =>
+            withRecord(segments, "Segment", segmentId, () => {
+              segmentsOf(String(contact.id)).add(String(segmentId));
+              return ok({ id: segmentId });
+            })
+          ),
+        remove: ({ segmentId, ...lookup }: Fields) =>
+          withContact(lookup, (contact) => {
+            segmentsOf(String(contact.id)).delete(String(segmentId));
+            return ok({ id: segmentId, deleted: true });
+          }),
+      },
+      topics: {
+        list: (lookup: Fields) =>
+          withContact(lookup, (contact) => {
+            const subscriptions = topicsOf(String(contact.id));
+            return ok(
+              paginate(
+                [...topics.values()].map((topic) => ({
+                  id: topic.id,
+                  name: topic.name,
+                  description: topic.description,
+                  subscription:
+                    subscriptions.get(String(topic.id)) ??
+                    topic.default_subscription,
+                })),
+                lookup
+              )
+            );
+          }),
+        update: ({ topics: changes, ...lookup }: Fields) =>
+          withContact(lookup, (contact) => {
+            for (const { id, subscription } of (changes ?? []) as Fields[]) {
+              topicsOf(String(contact.id)).set(
+                String(id),
+                String(subscription)
+              );
+            }
+            return ok({ id: contact.id });
+          }),
+      },
+    },
+    templates: {
+      ...templateRecords,
+      create: (payload: Fields) =>
+        payload.name && payload.html
+          ? templateRecords.create(payload)
+          : invalid(`Missing \`${payload.name ? "html" : "name"}\` field.`),
+      get: (idOrAlias: string) => {
+        const template = findTemplate(templates, idOrAlias);
+        return template ? ok(template) : notFound("Template");
+      },
+      update: (id: string, payload: Fields) =>
+        withRecord(templates, "Template", id, (template) => {
+          Object.assign(template, templateFields(payload), {
+            updated_at: now(),
+          });
+          return ok({ object: "template", id });
+        }),
+      publish: (id: string) =>
+        withRecord(templates, "Template", id, (template) => {
+          Object.assign(template, {
+            status: "published",
+            published_at: now(),
+          });
+          return ok({ object: "template", id });
+        }),
+      duplicate: (id: string) =>
+        withRecord(templates, "Template", id, (template) => {
+          const copy = {
+            ...template,
+            id: randomUUID(),
+            name: `${template.name} (Copy)`,
+            alias: null,
+            status: "draft",
+            created_at: now(),
+            updated_at: now(),
+            published_at: null,
+          };
+          templates.set(copy.id, copy);
+          return ok({ object: "template", id: copy.id });
+        }),
+    },
+    domains: {
+      ...crud(domains, "domain", "Domain", (payload) => ({
+        status: "not_started",
+        region: "us-east-1",
+        capabilities: { sending: "enabled", receiving: "disabled" },
+        records: [
+          {
+            record: "SPF",
+            name: "send",
+            type: "MX",
+            ttl: "Auto",
+            status: "not_started",
+            value: "feedback-smtp.us-east-1.amazonses.com",
+            priority: 10,
+          },
+          {
+            record: "SPF",
+            name: "send",
+            type: "TXT",
+            ttl: "Auto",
+            status: "not_started",
+            value: '"v=spf1 include:amazonses.com ~all"',
+          },
+          {
+            record: "DKIM",
+            name: "resend._domainkey",
+            type: "TXT",
+            ttl: "Auto",
+            status: "not_started",
+            value: "p=MIGfMA0GCSqGSIb3DQEBAQUAA4GNADCBiQKBgQ",
+          },
+        ],
+        ...toApiFields(payload),
+      })),
+      verify: (id: string) =>
+        withRecord(domains, "Domain", id, (domain) => {
+          domain.status = "verified";
+          for (const record of domain.records as Fields[]) {
+            record.status = "verified";
+          }
+          return ok({ object: "domain", id });
+        }),
+    },
+    broadcasts: {
+      ...crud(broadcasts, "broadcast", "Broadcast", (payload) => ({
+        status: "draft",
+        scheduled_at: null,
+        sent_at: null,
+        ...toApiFields(payload),
+      })),
+      update: (id: string, payload: Fields) =>
+        withRecord(broadcasts, "Broadcast", id, (broadcast) => {
+          if (broadcast.status !== "draft") {
+            return invalid("Only draft broadcasts can be updated.");
+          }
+          Object.assign(broadcast, toApiFields(payload));
+          return ok({ id });
+        }),
+      send: (id: string, options?: Fields) =>
+        withRecord(broadcasts, "Broadcast", id, (broadcast) => {
+          if (broadcast.status !== "draft") {
+            return invalid("This broadcast has already been sent.");
+          }
+          const scheduledAt = toIsoDate(options?.scheduledAt);
+          Object.assign(
+            broadcast,
+            scheduledAt
+              ? { status: "queued", scheduled_at: scheduledAt }
+              : { status: "sent", sent_at: now() }
+          );
+          return ok({ id });
+        }),
+    },
+    segments: crud(segments, "segment", "Segment", (payload) =>
+      toApiFields(payload)
+    ),
+    topics: {
+      ...crud(topics, "topic", "Topic", (payload) => ({
+        default_subscription: "opt_in",
+        ...toApiFields(payload),
+      })),
+      update: ({ id, ...changes }: Fields) =>
+        withRecord(topics, "Topic", id, (topic) => {
+          Object.assign(topic, toApiFields(changes));
+          return ok({ id });
+        }),
+    },
+  };
+
+  /** Records each call and returns any scripted failure instead of running it. */
+  const scripted = (group: Fields, path: string): Fields =>
+    Object.fromEntries(
+      Object.entries(group).map(([key, value]) => {
+        const method = path ? `${path}.${key}` : key;
+        if (typeof value !== "function") {
+          return [key, scripted(value as Fields, method)];
+        }
+        return [
+          key,
+          (...args: unknown[]) => {
+            calls.push({ method, args });
+            const failure = failures.get(method);
+            if (failure && failure.times > 0) {
+              failure.times -= 1;
+              return Promise.resolve(
+                failed(
+                  failure.error,
+                  failure.error.statusCode === 429 ? { "retry-after": "0" } : {}
+                )
+              );
+            }
+            return Promise.resolve(value(...args));
+          },
+        ];
+      })
+    );
+
+  const sent = () => [...emails.values()];
+  const values = (collection: Map<string, Fields>) => [...collection.values()];
+
+  return {
+    client: scripted(client, "") as unknown as Resend,
+    get emails() {
+      return sent();
+    },
+    get scheduledEmails() {
+      return sent().filter((email) => email.last_event === "scheduled");
+    },
+    get contacts() {
+      return values(contacts);
+    },
+    get templates() {
+      return values(templates);
+    },
+    get domains() {
+      return values(domains);
+    },
+    get broadcasts() {
+      return values(broadcasts);
+    },
+    get segments() {
+      return values(segments);
+    },
+    get topics() {
+      return values(topics);
+    },
+    get calls() {
+      return [...calls];
+    },
+    fail: (method, failure = "server_error", { times = 1 } = {}) => {
+      failures.set(method, {
+        error: typeof failure === "string" ? PRESETS[failure] : failure,
+        times,
+      });
+    },
+    setLastEvent: (emailId, event) => {
+      const email = emails.get(emailId);
+      if (!email) {
+        throw new Error(`No email with ID ${emailId} was sent.`);
+      }
+      email.last_event = event;
+    },
+    expectEmailSent: (matcher = {}) => {
+      const match = sent().find((email) => matchesEmail(email, matcher));
+      if (!match) {
+        throw new Error(
+          `Expected an email matching ${describeMatcher(matcher)}. ${describeEmails(sent())}`
+        );
+      }
+      return match;
+    },
+    expectNoEmailSent: (matcher = {}) => {
+      const match = sent().find((email) => matchesEmail(email, matcher));
+      if (match) {
+        throw new Error(
+          `Expected no email matching ${describeMatcher(matcher)}, but one was sent to ${match.to.join(", ")}: "${match.subject}".`
+        );
+      }
+    },
+    reset: () => {
+      for (const collection of [
+        emails,
+        contacts,
+        templates,
+        domains,
+        broadcasts,
+        segments,
+        topics,
+        contactSegments,
+        contactTopics,
+        idempotencyKeys,
+        failures,
+      ]) {
+        collection.clear();
+      }
+      calls.length = 0;
+      requestCount = 0;
+    },
+  };
+};
@@ -0,0 +1,88 @@
+/** A call made to the Resend SDK, such as `emails.send`. */
+export interface ResendRequest {
+  method: string;
+  payload: unknown;
+  options?: unknown;
+}
+
+/** The tool execution a Resend request belongs to. */
+export interface ToolCall {
+  tool: string;
+  toolCallId?: string;
+  /** Request IDs Resend returned during the call, oldest first. */
+  requestIds: string[];
+  /** Resend calls made during the call, without retries. */
+  requests: ResendRequest[];
+  /** Requests repeated by the retry layer during the call. */
+  retries: number;
+}
+
+interface CallStorage {
+  run<T>(call: ToolCall, fn: () => T): T;
+  getStore(): ToolCall | undefined;
+}
+
+type AsyncLocalStorageClass = new () => CallStorage;
+
+interface RuntimeGlobals {
+  AsyncLocalStorage?: AsyncLocalStorageClass;
+  process?: { getBuiltinModule?: (id: string) => unknown };
+}
+
+/**
+ * Finds `AsyncLocalStorage` without importing `node:async_hooks`, so the module
+ * also loads in runtimes without it. Edge runtimes expose it as a global and
+ * Node 20.16+ through `process.getBuiltinModule`.
+ */
+const findAsyncLocalStorage = (): AsyncLocalStorageClass | undefined => {
+  const runtime = globalThis as RuntimeGlobals;
+  if (runtime.AsyncLocalStorage) {
+    return runtime.AsyncLocalStorage;
+  }
+  try {
+    const asyncHooks = runtime.process?.getBuiltinModule?.(
+      "node:async_hooks"
+    ) as { AsyncLocalStorage?: AsyncLocalStorageClass } | undefined;
+    return asyncHooks?.AsyncLocalStorage;
+  } catch {
+    return;
+  }
+};
+
+/**
+ * Without `AsyncLocalStorage`, requests can only be attributed while a single
+ * tool call is running. Overlapping calls leave the current call unknown rather
+ * than guessing.
+ */
+const createActiveCallStorage = (): CallStorage => {
+  const active = new Set<ToolCall>();
+  return {
+    run: <T>(call: ToolCall, fn: () => T): T => {
+      active.add(call);
+      const done = () => active.delete(call);
+      try {
+        const result = fn();
+        if (result instanceof Promise) {
+          return result.finally(done) as T;
+        }
+        done();
+        return result;
+      } catch (error) {
+        done();
+        throw error;
+      }
+    },
+    getStore: () =>
+      active.size === 1 ? active.values().next().value : undefined,
+  };
+};
+
+const AsyncLocalStorage = findAsyncLocalStorage();
+const storage: CallStorage = AsyncLocalStorage
+  ? new AsyncLocalStorage()
+  : createActiveCallStorage();
+
+export const runInToolCall = <T>(call: ToolCall, fn: () => T): T =>
+  storage.run(call, fn);
+
+export const currentToolCall = (): ToolCall | undefined => storage.getStore();
@@ -0,0 +1,643 @@
+import type { Resend } from "resend";
+import { z } from "zod";
+import type { ToolContext } from "../config.js";
+import { defineTool } from "../define-tool.js";
+import { type ToolError, toToolError, validationError } from "../errors.js";
+import {
+  DryRunInputSchema,
+  GetBroadcastResultSchema,
+  ListBroadcastsResultSchema,
+  RemoveBroadcastResultSchema,
+  SaveBroadcastResultSchema,
+  SendBroadcastResultSchema,
+} from "../schemas.js";
+import {
+  checkSender,
+  describeSenderPolicy,
+  type PolicyViolation,
+  type SenderPolicy,
+} from "../sender-policy.js";
+import {
+  createDryRunId,
+  getStringField,
+  toStringArray,
+  withoutUndefined,
+} from "../utils.js";
+
+interface BroadcastContent {
+  from?: string;
+  subject?: string;
+  replyTo?: string[];
+  html?: string;
+  text?: string;
+}
+
+type ResolvedContent =
+  | { ok: true; content: BroadcastContent; violations?: PolicyViolation[] }
+  | { ok: false; failure: ToolError; violations?: PolicyViolation[] };
+
+const optionalString = (value: unknown) => (value ? String(value) : undefined);
+
+const loadTemplateContent = async (
+  resend: Resend,
+  templateId: string
+): Promise<BroadcastContent | ToolError> => {
+  const { data, error } = await resend.templates.get(templateId);
+  if (error) {
+    return {
+      ...toToolError(error),
+      error: `Template ${templateId} could not be loaded: ${error.message}`,
+    };
+  }
+  const template = data as unknown as Record<string, unknown>;
+  const replyTo = toStringArray(template.reply_to ?? template.replyTo);
+  return {
+    from: optionalString(template.from),
+    subject: optionalString(template.subject),
+    replyTo: replyTo.length > 0 ? replyTo : undefined,
+    html: optionalString(template.html),
+    text: optionalString(template.text),
+  };
+};
+
+const resolveContent = async (
+  resend: Resend,
+  senderPolicy: SenderPolicy,
+  templateId: string | undefined,
+  content: BroadcastContent
+): Promise<ResolvedContent> => {
+  let resolved = content;
+  if (templateId) {
+    const template = await loadTemplateContent(resend, templateId);
+    if ("errorCode" in template) {
+      return { ok: false, failure: template };
+    }
+    resolved = { ...template, ...withoutUndefined(content) };
+  }
+
+  if (!resolved.from) {
+    return { ok: true, content: resolved };
+  }
+  const sender = checkSender(senderPolicy, resolved.from);
+  const violations = sender.violation ? [sender.violation] : undefined;
+  if (!sender.allowed) {
+    return {
+      ok: false,
+      failure: validationError(sender.violation.reason),
+      violations,
+    };
+  }
+  return {
+    ok: true,
+    content: { ...resolved, from: sender.from },
+    violations,
+  };
+};
+
+const broadcastContentSchema = (senderPolicy: SenderPolicy) => ({
+  from: z
+    .string()
+    .optional()
+    .describe(
+      `Sender email address.${describeSenderPolicy(senderPolicy)} Defaults to the template's sender when templateId is set.`
+    ),
+  subject: z
+    .string()
+    .optional()
+    .describe(
+      "Email subject line. Defaults to the template's subject when templateId is set."
+    ),
+  replyTo: z
+    .array(z.string())
+    .optional()
+    .describe("Reply-to email address(es)"),
+  previewText: z
+    .string()
+    .optional()
+    .describe("Short preview text shown next to the subject in inboxes"),
+  html: z
+    .string()
+    .optional()
+    .describe(
+      "HTML content. Use {{{FIRST_NAME|there}}} style placeholders for contact properties."
+    ),
+  text: z.string().optional().describe("Plain text content"),
+  templateId: z
+    .string()
+    .optional()
+    .describe(
+      "ID or alias of a template (from listTemplates or getTemplate) to copy the content from. Explicit fields override the template."
+    ),
+  topicId: z
+    .string()
+    .optional()
+    .describe(
+      "Topic ID to send under. Contacts who opted out of the topic are skipped."
+    ),
+});
+
+export const createListBroadcastsTool = ({ getClient, logger }: ToolContext) =>
+  defineTool({
+    description:
+      "List broadcasts (campaign emails) in your Resend account. " +
+      "Use this tool to find draft, scheduled, or sent campaigns. " +
+      "Supports pagination via limit, after, and before parameters.",
+    inputSchema: z.object({
+      limit: z
+        .number()
+        .min(1)
+        .max(100)
+        .optional()
+        .describe("Number of broadcasts to retrieve. Default 20, max 100."),
+      after: z
+        .string()
+        .optional()
+        .describe(
+          "Broadcast ID after which to retrieve more broadcasts (for forward pagination). Cannot be used with before."
+        ),
+      before: z
+        .string()
+        .optional()
+        .describe(
+          "Broadcast ID before which to retrieve more broadcasts (for backward pagination). Cannot be used with after."
+        ),
+    }),
+    inputExamples: [{ input: {} }, { input: { limit: 10 } }],
+    outputSchema: ListBroadcastsResultSchema,
+    strict: true,
+    execute: async ({ limit, after, before }) => {
+      try {
+        const resend = getClient();
+        const { data, error } = await resend.broadcasts.list(
+          withoutUndefined({ limit, after, before }) as Parameters<
+            typeof resend.broadcasts.list
+          >[0]
+        );
+
+        if (error) {
+          return {
+            broadcasts: [],
+            count: 0,
+            ...toToolError(error),
+          };
+        }
+
+        const result = data as unknown as Record<string, unknown>;
+        const rawBroadcasts =
+          (result.data as Record<string, unknown>[] | undefined) ?? [];
+
+        const broadcasts = rawBroadcasts.map((broadcast) => ({
+          id: String(broadcast.id ?? ""),
+          name: optionalString(broadcast.name),
+          segmentId: getStringField(broadcast, "segment_id", "segmentId"),
+          status: String(broadcast.status ?? ""),
+          createdAt: getStringField(broadcast, "created_at", "createdAt"),
+          scheduledAt: getStringField(broadcast, "scheduled_at", "scheduledAt"),
+          sentAt: getStringField(broadcast, "sent_at", "sentAt"),
+        }));
+
+        return {
+          broadcasts,
+          count: broadcasts.length,
+          hasMore: Boolean(result.has_more ?? false),
+        };
+      } catch (error) {
+        logger.error("Error listing broadcasts", { error });
+        return {
+          broadcasts: [],
+          count: 0,
+          ...toToolError(error, "Failed to list broadcasts"),
+        };
+      }
+    },
+  });
+
+export const createGetBroadcastTool = ({ getClient, logger }: ToolContext) =>
+  defineTool({
+    description:
+      "Retrieve a broadcast by its ID. " +
+      "Use this tool to review a campaign's content, target segment, and status before it is sent.",
+    inputSchema: z.object({
+      id: z.string().describe("The ID of the broadcast to retrieve"),
+    }),
+    inputExamples: [{ input: { id: "559ac32e-9ef5-46fb-82a1-b76b840c0f7b" } }],
+    outputSchema: GetBroadcastResultSchema,
+    strict: true,
+    execute: async ({ id }) => {
+      try {
+        const resend = getClient();
+        const { data, error } = await resend.broadcasts.get(id);
+
+        if (error) {
+          return {
+            success: false,
+            id,
+            ...toToolError(error),
+          };
+        }
+
+        const result = data as unknown as Record<string, unknown>;
+        const replyTo = toStringArray(result.reply_to ?? result.replyTo);
+
+        return {
+          success: true,
+          id: String(result.id ?? id),
+          name: optionalString(result.name),
+          segmentId: getStringField(result, "segment_id", "segmentId"),
+          topicId: getStringField(result, "topic_id", "topicId"),
+          status: optionalString(result.status),
+          from: optionalString(result.from),
+          subject: optionalString(result.subject),
+          replyTo: replyTo.length > 0 ? replyTo : undefined,
+          previewText: getStringField(result, "preview_text", "previewText"),
+          html: optionalString(result.html),
+          text: optionalString(result.text),
+          createdAt: getStringField(result, "created_at", "createdAt"),
+          scheduledAt: getStringField(result, "scheduled_at", "scheduledAt"),
+          sentAt: getStringField(result, "sent_at", "sentAt"),
+        };
+      } catch (error) {
+        logger.error("Error getting broadcast", { error });
+        return {
+          success: false,
+          id,
+          ...toToolError(error, "Failed to get broadcast"),
+        };
+      }
+    },
+  });
+
+export const createCreateBroadcastTool = ({
+  getClient,
+  dryRun,
+  logger,
+  senderPolicy,
+}: ToolContext) =>
+  defineTool({
+    description:
+      "Create a draft broadcast (campaign email) for a segment of contacts. " +
+      "Use this tool when the user wants to prepare a newsletter, announcement, or marketing campaign. " +
+      "Content can be written directly or copied from a template. " +
+      "The broadcast is saved as a draft; use sendBroadcast to send or schedule it.",
+    inputSchema: z.object({
+      segmentId: z
+        .string()
+        .describe("ID of the segment of contacts to send the broadcast to"),
+      name: z
+        .string()
+        .optional()
+        .describe("Internal name to identify the broadcast"),
+      ...broadcastContentSchema(senderPolicy),
+      dryRun: DryRunInputSchema,
+    }),
+    inputExamples: [
+      {
+        input: {
+          segmentId: "78261eea-8f8b-4381-83c6-79fa7120f1cf",
+          name: "March newsletter",
+          from: "Acme <news@acme.com>",
+          subject: "What's new in March",
+          html: "<p>Hi {{{FIRST_NAME|there}}}, here's what's new...</p>",
+        },
+      },
+      {
+        input: {
+          segmentId: "78261eea-8f8b-4381-83c6-79fa7120f1cf",
+          templateId: "product-launch",
+        },
+      },
+    ],
+    outputSchema: SaveBroadcastResultSchema,
+    strict: true,
+    execute: async ({
+      segmentId,
+      name,
+      previewText,
+      topicId,
+      templateId,
+      dryRun: dryRunInput,
+      ...content
+    }) => {
+      try {
+        const resend = getClient();
+        const resolved = await resolveContent(
+          resend,
+          senderPolicy,
+          templateId,
+          content
+        );
+
+        if (!resolved.ok) {
+          return {
+            success: false,
+            id: "",
+            violations: resolved.violations,
+            ...resolved.failure,
+          };
+        }
+        if (!(resolved.content.from && resolved.content.subject)) {
+          return {
+            success: false,
+            id: "",
+            ...validationError(
+              "A broadcast needs a from address and a subject. Provide them directly or through a template."
+            ),
+          };
+        }
+
+        const params = withoutUndefined({
+          ...resolved.content,
+          segmentId,
+          name,
+          previewText,
+          topicId,
+        });
+
+        if (dryRun || dryRunInput) {
+          return {
+            success: true,
+            id: createDryRunId(),
+            violations: resolved.violations,
+            dryRun: true,
+            payload: params,
+          };
+        }
+
+        const { data, error } = await resend.broadcasts.create(
+          params as unknown as Parameters<typeof resend.broadcasts.create>[0]
+        );
+
+        if (error) {
+          return {
+            success: false,
+            id: "",
+            violations: resolved.violations,
+            ...toToolError(error),
+          };
+        }
+
+        return {
+          success: true,
+          id: data?.id ?? "",
+          violations: resolved.violations,
+        };
+      } catch (error) {
+        logger.error("Error creating broadcast", { error });
+        return {
+          success: false,
+          id: "",
+          ...toToolError(error, "Failed to create broadcast"),
+        };
+      }
+    },
+  });
+
+export const createUpdateBroadcastTool = ({
+  getClient,
+  dryRun,
+  logger,
+  senderPolicy,
+}: ToolContext) =>
+  defineTool({
+    description:
+      "Update a draft broadcast. Only the provided fields are changed. " +
+      "Use this tool to revise a campaign's content, subject, or target segment before it is sent.",
+    inputSchema: z.object({
+      id: z.string().describe("The ID of the draft broadcast to update"),
+      segmentId: z
+        .string()
+        .optional()
+        .describe("ID of the segment of contacts to send the broadcast to"),
+      name: z
+        .string()
+        .optional()
+        .describe("Internal name to identify the broadcast"),
+      ...broadcastContentSchema(senderPolicy),
+      dryRun: DryRunInputSchema,
+    }),
+    inputExamples: [
+      {
+        input: {
+          id: "559ac32e-9ef5-46fb-82a1-b76b840c0f7b",
+          subject: "What's new in March (updated)",
+        },
+      },
+    ],
+    outputSchema: SaveBroadcastResultSchema,
+    strict: true,
+    execute: async ({
+      id,
+      segmentId,
+      name,
+      previewText,
+      topicId,
+      templateId,
+      dryRun: dryRunInput,
+      ...content
+    }) => {
+      try {
+        const resend = getClient();
+        const resolved = await resolveContent(
+          resend,
+          senderPolicy,
+          templateId,
+          content
+        );
+
+        if (!resolved.ok) {
+          return {
+            success: false,
+            id,
+            violations: resolved.violations,
+            ...resolved.failure,
+          };
+        }
+
+        const params = withoutUndefined({
+          ...resolved.content,
+          segmentId,
+          name,
+          previewText,
+          topicId,
+        });
+
+        if (dryRun || dryRunInput) {
+          return {
+            success: true,
+            id,
+            violations: resolved.violations,
+            dryRun: true,
+            payload: { id, ...params },
+          };
+        }
+
+        const { data, error } = await resend.broadcasts.update(
+          id,
+          params as Parameters<typeof resend.broadcasts.update>[1]
+        );
+
+        if (error) {
+          return {
+            success: false,
+            id,
+            violations: resolved.violations,
+            ...toToolError(error),
+          };
+        }
+
+        return {
+          success: true,
+          id: data?.id ?? id,
+          violations: resolved.violations,
+        };
+      } catch (error) {
+        logger.error("Error updating broadcast", { error });
+        return {
+          success: false,
+          id,
+          ...toToolError(error, "Failed to update broadcast"),
+        };
+      }
+    },
+  });
+
+export const createSendBroadcastTool = ({
+  getClient,
+  dryRun,
+  logger,
+  recipientPolicy,
+}: ToolContext) =>
+  defineTool({
+    description:
+      "Send a draft broadcast to its segment now or at a scheduled time. " +
+      "Use this tool only after the user has reviewed the campaign. " +
+      "Every contact in the segment will receive the email.",
+    inputSchema: z.object({
+      id: z.string().describe("The ID of the broadcast to send"),
+      scheduledAt: z
+        .string()
+        .optional()
+        .describe(
+          'Schedule the broadcast for later. Use natural language (e.g., "in 1 hour") or ISO 8601 format. Sends immediately when omitted.'
+        ),
+      dryRun: DryRunInputSchema,
+    }),
+    inputExamples: [
+      { input: { id: "559ac32e-9ef5-46fb-82a1-b76b840c0f7b" } },
+      {
+        input: {
+          id: "559ac32e-9ef5-46fb-82a1-b76b840c0f7b",
+          scheduledAt: "tomorrow at 9am",
+        },
+      },
+    ],
+    outputSchema: SendBroadcastResultSchema,
+    strict: true,
+    execute: async ({ id, scheduledAt, dryRun: dryRunInput }) => {
+      if (recipientPolicy.sandboxInbox && !recipientPolicy.allowBroadcasts) {
+        return {
+          success: false,
+          id,
+          ...validationError(
+            `Broadcasts cannot be redirected to the sandbox inbox ${recipientPolicy.sandboxInbox}, so sending them is disabled.`
+          ),
+        };
+      }
+      if (dryRun || dryRunInput) {
+        return {
+          success: true,
+          id,
+          scheduledAt,
+          dryRun: true,
+          payload: withoutUndefined({ id, scheduledAt }),
+        };
+      }
+
+      try {
+        const resend = getClient();
+        const { data, error } = await resend.broadcasts.send(
+          id,
+          withoutUndefined({ scheduledAt })
+        );
+
+        if (error) {
+          return {
+            success: false,
+            id,
+            ...toToolError(error),
+          };
+        }
+
+        return {
+          success: true,
+          id: data?.id ?? id,
+          scheduledAt,
+        };
+      } catch (error) {
+        logger.error("Error sending broadcast", { error });
+        return {
+          success: false,
+          id,
+          ...toToolError(error, "Failed to send broadcast"),
+        };
+      }
+    },
+  });
+
+export const createRemoveBroadcastTool = ({
+  getClient,
+  dryRun,
+  logger,
+}: ToolContext) =>
+  defineTool({
+    description:
+      "Permanently remove a broadcast. Only draft or scheduled broadcasts can be removed; removing a scheduled broadcast cancels it. " +
+      "WARNING: This action is irreversible.",
+    inputSchema: z.object({
+      id: z.string().describe("The ID of the broadcast to remove"),
+      dryRun: DryRunInputSchema,
+    }),
+    inputExamples: [{ input: { id: "559ac32e-9ef5-46fb-82a1-b76b840c0f7b" } }],
+    outputSchema: RemoveBroadcastResultSchema,
+    strict: true,
+    execute: async ({ id, dryRun: dryRunInput }) => {
+      if (dryRun || dryRunInput) {
+        return {
+          success: true,
+          deleted: false,
+          id,
+          dryRun: true,
+          payload: { id },
+        };
+      }
+
+      try {
+        const resend = getClient();
+        const { data, error } = await resend.broadcasts.remove(id);
+
+        if (error) {
+          return {
+            success: false,
+            deleted: false,
+            id,
+            ...toToolError(error),
+          };
+        }
+
+        const result = data as unknown as Record<string, unknown>;
+        return {
+          success: true,
+          deleted: Boolean(result.deleted ?? true),
+          id: String(result.id ?? id),
+        };
+      } catch (error) {
+        logger.error("Error removing broadcast", { error });
+        return {
+          success: false,
+          deleted: false,
+          id,
+          ...toToolError(error, "Failed to remove broadcast"),
+        };
+      }
+    },
+  });
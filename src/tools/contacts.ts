@@ -0,0 +1,534 @@
+import type { Resend } from "resend";
+import { z } from "zod";
+import type { ToolContext } from "../config.js";
+import { defineTool } from "../define-tool.js";
+import { toToolError } from "../errors.js";
+import {
+  includesText,
+  inDateRange,
+  paginationInputFields,
+  walkPages,
+} from "../pagination.js";
+import {
+  CreateContactResultSchema,
+  DryRunInputSchema,
+  GetContactResultSchema,
+  ListContactsResultSchema,
+  RemoveContactResultSchema,
+  UpdateContactResultSchema,
+} from "../schemas.js";
+import {
+  createDryRunId,
+  getStringField,
+  toContactLookup,
+  withoutUndefined,
+} from "../utils.js";
+
+export const createCreateContactTool = ({
+  getClient,
+  dryRun,
+  logger,
+}: ToolContext) =>
+  defineTool({
+    description:
+      "Create a new contact in your Resend account. " +
+      "Use this tool when the user wants to add a subscriber, save a contact, or build a mailing list. " +
+      "Contacts are global entities identified by email and can be organized into segments for broadcast emails.",
+    inputSchema: z.object({
+      email: z.string().describe("Email address of the contact"),
+      firstName: z.string().optional().describe("First name of the contact"),
+      lastName: z.string().optional().describe("Last name of the contact"),
+      unsubscribed: z
+        .boolean()
+        .optional()
+        .describe(
+          "The contact's global subscription status. If true, the contact will be unsubscribed from all Broadcasts. Defaults to false."
+        ),
+      properties: z
+        .record(z.string(), z.string())
+        .optional()
+        .describe(
+          'A map of custom property keys and values to set on the contact (e.g., { "plan": "pro", "company": "Acme" })'
+        ),
+      segments: z
+        .array(z.string())
+        .optional()
+        .describe("Array of segment IDs to add the contact to"),
+      topics: z
+        .array(
+          z.object({
+            id: z.string().describe("The topic ID"),
+            subscription: z
+              .enum(["opt_in", "opt_out"])
+              .describe("The subscription status for this topic"),
+          })
+        )
+        .optional()
+        .describe("Array of topic subscriptions for the contact"),
+      dryRun: DryRunInputSchema,
+    }),
+    inputExamples: [
+      {
+        input: {
+          email: "john@example.com",
+          firstName: "John",
+          lastName: "Doe",
+        },
+      },
+      {
+        input: {
+          email: "jane@example.com",
+          firstName: "Jane",
+          segments: ["seg_123"],
+          topics: [{ id: "top_456", subscription: "opt_in" }],
+        },
+      },
+    ],
+    outputSchema: CreateContactResultSchema,
+    strict: true,
+    execute: async ({
+      email,
+      firstName,
+      lastName,
+      unsubscribed,
+      properties,
+      segments,
+      topics,
+      dryRun: dryRunInput,
+    }) => {
+      const params = withoutUndefined({
+        email,
+        firstName,
+        lastName,
+        unsubscribed,
+        properties,
+        segments: segments?.map((id) => ({ id })),
+        topics,
+      });
+
+      if (dryRun || dryRunInput) {
+        return {
+          success: true,
+          id: createDryRunId(),
+          dryRun: true,
+          payload: params,
+        };
+      }
+
+      try {
+        const resend = getClient();
+        const { data, error } = await resend.contacts.create(
+          params as unknown as Parameters<typeof resend.contacts.create>[0]
+        );
+
+        if (error) {
+          return {
+            success: false,
+            id: "",
+            ...toToolError(error),
+          };
+        }
+
+        const result = data as unknown as Record<string, unknown>;
+        return {
+          success: true,
+          id: String(result.id ?? ""),
+        };
+      } catch (error) {
+        logger.error("Error creating contact", { error });
+        return {
+          success: false,
+          id: "",
+          ...toToolError(error, "Failed to create contact"),
+        };
+      }
+    },
+  });
+
+export const createListContactsTool = ({ getClient, logger }: ToolContext) =>
+  defineTool({
+    description:
+      "List contacts in your Resend account. " +
+      "Use this tool to browse your contact list, check subscriber counts, or find specific contacts. " +
+      "Supports pagination via limit, after, and before, and client-side filters on email, subscription status, and creation date. " +
+      "Set autoPaginate to search across several pages.",
+    inputSchema: z.object({
+      ...paginationInputFields("contacts"),
+      segmentId: z
+        .string()
+        .optional()
+        .describe("Only list contacts in this segment"),
+      email: z
+        .string()
+        .optional()
+        .describe(
+          "Only contacts whose email contains this text (case-insensitive), e.g. a domain like '@acme.com'"
+        ),
+      unsubscribed: z
+        .boolean()
+        .optional()
+        .describe("Only unsubscribed (true) or subscribed (false) contacts"),
+      createdAfter: z
+        .string()
+        .optional()
+        .describe("Only contacts created at or after this ISO 8601 timestamp"),
+      createdBefore: z
+        .string()
+        .optional()
+        .describe("Only contacts created at or before this ISO 8601 timestamp"),
+    }),
+    inputExamples: [
+      { input: {} },
+      { input: { unsubscribed: true, autoPaginate: true } },
+    ],
+    outputSchema: ListContactsResultSchema,
+    strict: true,
+    execute: async ({
+      segmentId,
+      email,
+      unsubscribed,
+      createdAfter,
+      createdBefore,
+      ...pagination
+    }) => {
+      try {
+        const resend = getClient();
+        const result = await walkPages(
+          async (cursor) => {
+            const { data, error } = await resend.contacts.list(
+              withoutUndefined({ ...cursor, segmentId }) as Parameters<
+                typeof resend.contacts.list
+              >[0]
+            );
+            if (error) {
+              return { items: [], hasMore: false, error };
+            }
+            const page = data as unknown as Record<string, unknown>;
+            const rawContacts =
+              (page.data as Record<string, unknown>[] | undefined) ?? [];
+            return {
+              items: rawContacts.map((contact) => ({
+                id: String(contact.id ?? ""),
+                email: String(contact.email ?? ""),
+                firstName: getStringField(contact, "first_name", "firstName"),
+                lastName: getStringField(contact, "last_name", "lastName"),
+                unsubscribed: Boolean(contact.unsubscribed ?? false),
+                createdAt: getStringField(contact, "created_at", "createdAt"),
+              })),
+              hasMore: Boolean(page.has_more ?? false),
+            };
+          },
+          (contact) =>
+            includesText(contact.email, email) &&
+            (unsubscribed === undefined ||
+              contact.unsubscribed === unsubscribed) &&
+            inDateRange(contact.createdAt, createdAfter, createdBefore),
+          pagination
+        );
+
+        if (!result.ok) {
+          return {
+            contacts: [],
+            count: 0,
+            ...toToolError(result.error),
+          };
+        }
+
+        return {
+          contacts: result.items,
+          count: result.items.length,
+          hasMore: result.hasMore,
+          nextCursor: result.nextCursor,
+        };
+      } catch (error) {
+        logger.error("Error listing contacts", { error });
+        return {
+          contacts: [],
+          count: 0,
+          ...toToolError(error, "Failed to list contacts"),
+        };
+      }
+    },
+  });
+
+const mapContactProperties = (value: unknown) => {
+  if (!value || typeof value !== "object") {
+    return;
+  }
+  const properties: Record<string, string | number> = {};
+  for (const [key, entry] of Object.entries(value)) {
+    const raw =
+      entry && typeof entry === "object" && "value" in entry
+        ? (entry as { value: unknown }).value
+        : entry;
+    if (typeof raw === "string" || typeof raw === "number") {
+      properties[key] = raw;
+    }
+  }
+  return properties;
+};
+
+const loadContactMemberships = async (resend: Resend, contact: string) => {
+  const lookup = toContactLookup(contact);
+  const [segmentsResponse, topicsResponse] = await Promise.all([
+    resend.contacts.segments.list(
+      lookup as Parameters<typeof resend.contacts.segments.list>[0]
+    ),
+    resend.contacts.topics.list({
+      id: lookup.contactId,
+      email: lookup.email,
+    } as Parameters<typeof resend.contacts.topics.list>[0]),
+  ]);
+
+  const rawSegments = (
+    segmentsResponse?.data as unknown as
+      | { data?: Record<string, unknown>[] }
+      | undefined
+  )?.data;
+  const rawTopics = (
+    topicsResponse?.data as unknown as
+      | { data?: Record<string, unknown>[] }
+      | undefined
+  )?.data;
+
+  return {
+    segments: rawSegments?.map((segment) => ({
+      id: String(segment.id ?? ""),
+      name: String(segment.name ?? ""),
+      createdAt: getStringField(segment, "created_at", "createdAt"),
+    })),
+    topics: rawTopics?.map((topic) => ({
+      id: String(topic.id ?? ""),
+      name: topic.name ? String(topic.name) : undefined,
+      description: topic.description ? String(topic.description) : undefined,
+      subscription: (topic.subscription === "opt_in" ? "opt_in" : "opt_out") as
+        | "opt_in"
+        | "opt_out",
+    })),
+  };
+};
+
+export const createGetContactTool = ({ getClient, logger }: ToolContext) =>
+  defineTool({
+    description:
+      "Retrieve a single contact by their ID or email address, including custom properties, segments, and topic subscriptions. " +
+      "Use this tool to look up a subscriber before updating them or to answer questions about what they receive.",
+    inputSchema: z.object({
+      id: z
+        .string()
+        .describe("The ID or email address of the contact to retrieve"),
+    }),
+    inputExamples: [
+      { input: { id: "4ef9a417-02e9-4d39-ad75-9611e0bf7a83" } },
+      { input: { id: "user@example.com" } },
+    ],
+    outputSchema: GetContactResultSchema,
+    strict: true,
+    execute: async ({ id }) => {
+      try {
+        const resend = getClient();
+        const { data, error } = await resend.contacts.get(id);
+
+        if (error) {
+          return {
+            success: false,
+            id,
+            ...toToolError(error),
+          };
+        }
+
+        const result = data as unknown as Record<string, unknown>;
+        const { segments, topics } = await loadContactMemberships(resend, id);
+
+        return {
+          success: true,
+          id: String(result.id ?? id),
+          email: result.email ? String(result.email) : undefined,
+          firstName: getStringField(result, "first_name", "firstName"),
+          lastName: getStringField(result, "last_name", "lastName"),
+          unsubscribed: Boolean(result.unsubscribed ?? false),
+          createdAt: getStringField(result, "created_at", "createdAt"),
+          properties: mapContactProperties(result.properties),
+          segments,
+          topics,
+        };
+      } catch (error) {
+        logger.error("Error getting contact", { error });
+        return {
+          success: false,
+          id,
+          ...toToolError(error, "Failed to get contact"),
+        };
+      }
+    },
+  });
+
+export const createUpdateContactTool = ({
+  getClient,
+  dryRun,
+  logger,
+}: ToolContext) =>
+  defineTool({
+    description:
+      "Update an existing contact by their ID or email address. Only the provided fields are changed. " +
+      "Use this tool to correct a name, unsubscribe someone from all broadcasts, or set custom properties without recreating the contact. " +
+      "To change topic subscriptions use updateContactTopics instead.",
+    inputSchema: z.object({
+      id: z
+        .string()
+        .describe("The ID or email address of the contact to update"),
+      firstName: z
+        .string()
+        .nullable()
+        .optional()
+        .describe("New first name. Use null to clear it."),
+      lastName: z
+        .string()
+        .nullable()
+        .optional()
+        .describe("New last name. Use null to clear it."),
+      unsubscribed: z
+        .boolean()
+        .optional()
+        .describe(
+          "The contact's global subscription status. If true, the contact will be unsubscribed from all Broadcasts."
+        ),
+      properties: z
+        .record(z.string(), z.union([z.string(), z.number()]).nullable())
+        .optional()
+        .describe(
+          'Custom property values to set. Properties that are not listed are left unchanged; use null to clear one (e.g., { "plan": "enterprise" })'
+        ),
+      dryRun: DryRunInputSchema,
+    }),
+    inputExamples: [
+      { input: { id: "user@example.com", firstName: "Jane" } },
+      {
+        input: {
+          id: "4ef9a417-02e9-4d39-ad75-9611e0bf7a83",
+          unsubscribed: true,
+        },
+      },
+    ],
+    outputSchema: UpdateContactResultSchema,
+    strict: true,
+    execute: async ({
+      id,
+      firstName,
+      lastName,
+      unsubscribed,
+      properties,
+      dryRun: dryRunInput,
+    }) => {
+      const params = withoutUndefined({
+        id,
+        firstName,
+        lastName,
+        unsubscribed,
+        properties,
+      });
+
+      if (dryRun || dryRunInput) {
+        return {
+          success: true,
+          id,
+          dryRun: true,
+          payload: params,
+        };
+      }
+
+      try {
+        const resend = getClient();
+        const { data, error } = await resend.contacts.update(
+          params as Parameters<typeof resend.contacts.update>[0]
+        );
+
+        if (error) {
+          return {
+            success: false,
+            id,
+            ...toToolError(error),
+          };
+        }
+
+        return {
+          success: true,
+          id: String(data?.id ?? id),
+        };
+      } catch (error) {
+        logger.error("Error updating contact", { error });
+        return {
+          success: false,
+          id,
+          ...toToolError(error, "Failed to update contact"),
+        };
+      }
+    },
+  });
+
+export const createRemoveContactTool = ({
+  getClient,
+  dryRun,
+  logger,
+}: ToolContext) =>
+  defineTool({
+    description:
+      "Permanently remove a contact from your Resend account by their ID or email address. " +
+      "Use when the user explicitly wants to delete a subscriber or remove someone from the contact list. " +
+      "WARNING: This action is irreversible.",
+    inputSchema: z.object({
+      id: z
+        .string()
+        .describe("The ID or email address of the contact to remove"),
+      dryRun: DryRunInputSchema,
+    }),
+    inputExamples: [
+      { input: { id: "4ef9a417-02e9-4d39-ad75-9611e0bf7a83" } },
+      { input: { id: "user@example.com" } },
+    ],
+    outputSchema: RemoveContactResultSchema,
+    strict: true,
+    execute: async ({ id, dryRun: dryRunInput }) => {
+      if (dryRun || dryRunInput) {
+        return {
+          success: true,
+          deleted: false,
+          id,
+          dryRun: true,
+          payload: { id },
+        };
+      }
+
+      try {
+        const resend = getClient();
+
+        const { data, error } = await resend.contacts.remove({
+          id,
+        } as Parameters<typeof resend.contacts.remove>[0]);
+
+        if (error) {
+          return {
+            success: false,
+            deleted: false,
+            id,
+            ...toToolError(error),
+          };
+        }
+
+        const result = data as unknown as Record<string, unknown>;
+        return {
+          success: true,
+          deleted: Boolean(result.deleted ?? true),
+          id: String(result.id ?? id),
+        };
+      } catch (error) {
+        logger.error("Error removing contact", { error });
+        return {
+          success: false,
+          deleted: false,
+          id,
+          ...toToolError(error, "Failed to remove contact"),
+        };
+      }
+    },
+  });
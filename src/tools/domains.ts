@@ -0,0 +1,343 @@
+import { z } from "zod";
+import type { ToolContext } from "../config.js";
+import { defineTool } from "../define-tool.js";
+import { toToolError } from "../errors.js";
+import {
+  CreateDomainResultSchema,
+  DryRunInputSchema,
+  GetDomainResultSchema,
+  ListDomainsResultSchema,
+  RemoveDomainResultSchema,
+  VerifyDomainResultSchema,
+} from "../schemas.js";
+import { createDryRunId, getStringField, withoutUndefined } from "../utils.js";
+
+const mapDomainRecords = (value: unknown) =>
+  ((value as Record<string, unknown>[] | undefined) ?? []).map((record) => ({
+    record: String(record.record ?? ""),
+    type: String(record.type ?? ""),
+    name: String(record.name ?? ""),
+    value: String(record.value ?? ""),
+    ttl: record.ttl ? String(record.ttl) : undefined,
+    priority: typeof record.priority === "number" ? record.priority : undefined,
+    status: String(record.status ?? ""),
+  }));
+
+export const createListDomainsTool = ({ getClient, logger }: ToolContext) =>
+  defineTool({
+    description:
+      "List sending domains in your Resend account. " +
+      "Use this tool to see which domains exist and whether they are verified before sending. " +
+      "Supports pagination via limit, after, and before parameters.",
+    inputSchema: z.object({
+      limit: z
+        .number()
+        .min(1)
+        .max(100)
+        .optional()
+        .describe("Number of domains to retrieve. Default 20, max 100."),
+      after: z
+        .string()
+        .optional()
+        .describe(
+          "Domain ID after which to retrieve more domains (for forward pagination). Cannot be used with before."
+        ),
+      before: z
+        .string()
+        .optional()
+        .describe(
+          "Domain ID before which to retrieve more domains (for backward pagination). Cannot be used with after."
+        ),
+    }),
+    inputExamples: [{ input: {} }, { input: { limit: 10 } }],
+    outputSchema: ListDomainsResultSchema,
+    strict: true,
+    execute: async ({ limit, after, before }) => {
+      try {
+        const resend = getClient();
+        const { data, error } = await resend.domains.list(
+          withoutUndefined({ limit, after, before }) as Parameters<
+            typeof resend.domains.list
+          >[0]
+        );
+
+        if (error) {
+          return {
+            domains: [],
+            count: 0,
+            ...toToolError(error),
+          };
+        }
+
+        const result = data as unknown as Record<string, unknown>;
+        const rawDomains =
+          (result.data as Record<string, unknown>[] | undefined) ?? [];
+
+        const domains = rawDomains.map((domain) => ({
+          id: String(domain.id ?? ""),
+          name: String(domain.name ?? ""),
+          status: String(domain.status ?? ""),
+          region: domain.region ? String(domain.region) : undefined,
+          createdAt: getStringField(domain, "created_at", "createdAt"),
+        }));
+
+        return {
+          domains,
+          count: domains.length,
+          hasMore: Boolean(result.has_more ?? false),
+        };
+      } catch (error) {
+        logger.error("Error listing domains", { error });
+        return {
+          domains: [],
+          count: 0,
+          ...toToolError(error, "Failed to list domains"),
+        };
+      }
+    },
+  });
+
+export const createGetDomainTool = ({ getClient, logger }: ToolContext) =>
+  defineTool({
+    description:
+      "Retrieve a sending domain by its ID, including the DNS records it needs and the verification status of each record. " +
+      "Use this tool to walk a user through DNS setup or to diagnose 'domain not verified' errors when sending.",
+    inputSchema: z.object({
+      id: z.string().describe("The ID of the domain to retrieve"),
+    }),
+    inputExamples: [{ input: { id: "d91cd9bd-1176-453e-8fc1-35364d380206" } }],
+    outputSchema: GetDomainResultSchema,
+    strict: true,
+    execute: async ({ id }) => {
+      try {
+        const resend = getClient();
+        const { data, error } = await resend.domains.get(id);
+
+        if (error) {
+          return {
+            success: false,
+            id,
+            ...toToolError(error),
+          };
+        }
+
+        const result = data as unknown as Record<string, unknown>;
+        const capabilities = result.capabilities as
+          | Record<string, unknown>
+          | undefined;
+
+        return {
+          success: true,
+          id: String(result.id ?? id),
+          name: result.name ? String(result.name) : undefined,
+          status: result.status ? String(result.status) : undefined,
+          region: result.region ? String(result.region) : undefined,
+          sending: capabilities
+            ? capabilities.sending === "enabled"
+            : undefined,
+          receiving: capabilities
+            ? capabilities.receiving === "enabled"
+            : undefined,
+          records: mapDomainRecords(result.records),
+          createdAt: getStringField(result, "created_at", "createdAt"),
+        };
+      } catch (error) {
+        logger.error("Error getting domain", { error });
+        return {
+          success: false,
+          id,
+          ...toToolError(error, "Failed to get domain"),
+        };
+      }
+    },
+  });
+
+export const createCreateDomainTool = ({
+  getClient,
+  dryRun,
+  logger,
+}: ToolContext) =>
+  defineTool({
+    description:
+      "Add a new sending domain to your Resend account. " +
+      "Use this tool when the user wants to send from a domain that is not set up yet. " +
+      "Returns the DNS records the user must add at their DNS provider before calling verifyDomain.",
+    inputSchema: z.object({
+      name: z
+        .string()
+        .describe("The domain name to add (e.g., mail.example.com)"),
+      region: z
+        .enum(["us-east-1", "eu-west-1", "sa-east-1", "ap-northeast-1"])
+        .optional()
+        .describe("Region emails are sent from. Defaults to us-east-1."),
+      customReturnPath: z
+        .string()
+        .optional()
+        .describe(
+          "Subdomain used for the Return-Path address. Defaults to 'send'."
+        ),
+      dryRun: DryRunInputSchema,
+    }),
+    inputExamples: [
+      { input: { name: "mail.example.com" } },
+      { input: { name: "example.com", region: "eu-west-1" } },
+    ],
+    outputSchema: CreateDomainResultSchema,
+    strict: true,
+    execute: async ({
+      name,
+      region,
+      customReturnPath,
+      dryRun: dryRunInput,
+    }) => {
+      const params = withoutUndefined({ name, region, customReturnPath });
+      if (dryRun || dryRunInput) {
+        return {
+          success: true,
+          id: createDryRunId(),
+          name,
+          dryRun: true,
+          payload: params,
+        };
+      }
+
+      try {
+        const resend = getClient();
+        const { data, error } = await resend.domains.create(
+          params as Parameters<typeof resend.domains.create>[0]
+        );
+
+        if (error) {
+          return {
+            success: false,
+            id: "",
+            ...toToolError(error),
+          };
+        }
+
+        const result = data as unknown as Record<string, unknown>;
+        return {
+          success: true,
+          id: String(result.id ?? ""),
+          name: String(result.name ?? name),
+          status: result.status ? String(result.status) : undefined,
+          records: mapDomainRecords(result.records),
+        };
+      } catch (error) {
+        logger.error("Error creating domain", { error });
+        return {
+          success: false,
+          id: "",
+          ...toToolError(error, "Failed to create domain"),
+        };
+      }
+    },
+  });
+
+export const createVerifyDomainTool = ({
+  getClient,
+  dryRun,
+  logger,
+}: ToolContext) =>
+  defineTool({
+    description:
+      "Trigger DNS verification for a sending domain. " +
+      "Use this tool after the user has added the DNS records returned by createDomain or getDomain. " +
+      "Verification runs asynchronously; call getDomain afterwards to check the status of each record.",
+    inputSchema: z.object({
+      id: z.string().describe("The ID of the domain to verify"),
+      dryRun: DryRunInputSchema,
+    }),
+    inputExamples: [{ input: { id: "d91cd9bd-1176-453e-8fc1-35364d380206" } }],
+    outputSchema: VerifyDomainResultSchema,
+    strict: true,
+    execute: async ({ id, dryRun: dryRunInput }) => {
+      if (dryRun || dryRunInput) {
+        return { success: true, id, dryRun: true, payload: { id } };
+      }
+
+      try {
+        const resend = getClient();
+        const { data, error } = await resend.domains.verify(id);
+
+        if (error) {
+          return {
+            success: false,
+            id,
+            ...toToolError(error),
+          };
+        }
+
+        return {
+          success: true,
+          id: String(data?.id ?? id),
+        };
+      } catch (error) {
+        logger.error("Error verifying domain", { error });
+        return {
+          success: false,
+          id,
+          ...toToolError(error, "Failed to verify domain"),
+        };
+      }
+    },
+  });
+
+export const createRemoveDomainTool = ({
+  getClient,
+  dryRun,
+  logger,
+}: ToolContext) =>
+  defineTool({
+    description:
+      "Permanently remove a sending domain from your Resend account. " +
+      "Use only when the user explicitly wants to delete a domain. " +
+      "WARNING: This action is irreversible and emails can no longer be sent from this domain.",
+    inputSchema: z.object({
+      id: z.string().describe("The ID of the domain to remove"),
+      dryRun: DryRunInputSchema,
+    }),
+    inputExamples: [{ input: { id: "d91cd9bd-1176-453e-8fc1-35364d380206" } }],
+    outputSchema: RemoveDomainResultSchema,
+    strict: true,
+    execute: async ({ id, dryRun: dryRunInput }) => {
+      if (dryRun || dryRunInput) {
+        return {
+          success: true,
+          deleted: false,
+          id,
+          dryRun: true,
+          payload: { id },
+        };
+      }
+
+      try {
+        const resend = getClient();
+        const { data, error } = await resend.domains.remove(id);
+
+        if (error) {
+          return {
+            success: false,
+            deleted: false,
+            id,
+            ...toToolError(error),
+          };
+        }
+
+        const result = data as unknown as Record<string, unknown>;
+        return {
+          success: true,
+          deleted: Boolean(result.deleted ?? true),
+          id: String(result.id ?? id),
+        };
+      } catch (error) {
+        logger.error("Error removing domain", { error });
+        return {
+          success: false,
+          deleted: false,
+          id,
+          ...toToolError(error, "Failed to remove domain"),
+        };
+      }
+    },
+  });
@@ -0,0 +1,1218 @@
+import type { Resend } from "resend";
+import { z } from "zod";
+import { sendBatches, summarizeBatchFailures } from "../batch.js";
+import type { ToolContext } from "../config.js";
+import { defineTool } from "../define-tool.js";
+import {
+  type OutgoingEmail,
+  prepareBatch,
+  prepareEmail,
+} from "../email-policy.js";
+import {
+  notConfiguredError,
+  type ToolError,
+  timeoutError,
+  toToolError,
+  undeliverableError,
+  validationError,
+} from "../errors.js";
+import {
+  includesText,
+  inDateRange,
+  paginationInputFields,
+  walkPages,
+} from "../pagination.js";
+import type { SandboxRedirect } from "../recipient-policy.js";
+import {
+  BatchSendResultSchema,
+  CancelScheduledEmailResultSchema,
+  DryRunInputSchema,
+  GetEmailEventsResultSchema,
+  GetEmailResultSchema,
+  IdempotencyKeyInputSchema,
+  ListEmailsResultSchema,
+  SendResultSchema,
+  UpdateScheduledEmailResultSchema,
+  WaitForEmailEventResultSchema,
+} from "../schemas.js";
+import {
+  describeSenderPolicy,
+  type PolicyViolation,
+} from "../sender-policy.js";
+import {
+  checkTemplate,
+  type TemplateCheck,
+  type TemplateValidation,
+  type TemplateVariableValue,
+} from "../template-validation.js";
+import {
+  createDryRunId,
+  getStringField,
+  sleep,
+  toStringArray,
+  withoutUndefined,
+} from "../utils.js";
+import type { EmailEvent } from "../webhooks.js";
+
+const EVENT_TYPE_PREFIX = "email.";
+const POLL_BASE_DELAY_MS = 1000;
+const POLL_MAX_DELAY_MS = 10_000;
+const ISO_TIMESTAMP_PATTERN =
+  /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})$/i;
+
+const WaitableEventSchema = z.enum([
+  "sent",
+  "delivered",
+  "delivery_delayed",
+  "opened",
+  "clicked",
+  "bounced",
+  "complained",
+  "failed",
+  "canceled",
+]);
+
+type WaitableEvent = z.infer<typeof WaitableEventSchema>;
+
+/** Events an email stops at, one way or the other. */
+const DEFAULT_WAIT_EVENTS: WaitableEvent[] = [
+  "delivered",
+  "bounced",
+  "complained",
+  "failed",
+  "canceled",
+];
+
+/** Events after which an email never changes again. */
+const FINAL_EVENTS = new Set(["bounced", "complained", "failed", "canceled"]);
+
+/**
+ * Events that only follow the listed ones. Resend reports just the latest, so
+ * an email that was opened before the first poll never shows `delivered`.
+ */
+const IMPLIED_EVENTS: Record<string, WaitableEvent[]> = {
+  delivered: ["sent"],
+  delivery_delayed: ["sent"],
+  opened: ["sent", "delivered"],
+  clicked: ["sent", "delivered", "opened"],
+  complained: ["sent", "delivered"],
+};
+
+const lastEventOf = (email: unknown) =>
+  email
+    ? getStringField(
+        email as Record<string, unknown>,
+        "last_event",
+        "lastEvent"
+      )
+    : undefined;
+
+const reachedEvent = (lastEvent: string, events: WaitableEvent[]) =>
+  events.some(
+    (event) => event === lastEvent || IMPLIED_EVENTS[lastEvent]?.includes(event)
+  );
+
+const reasonOf = (event: EmailEvent) => {
+  switch (event.type) {
+    case "email.failed":
+      return event.data.failed.reason;
+    case "email.suppressed":
+      return event.data.suppressed.message;
+    default:
+      return;
+  }
+};
+
+const toEventInfo = (event: EmailEvent) =>
+  withoutUndefined({
+    type: event.type.replace(EVENT_TYPE_PREFIX, ""),
+    createdAt: event.created_at,
+    bounce: event.type === "email.bounced" ? event.data.bounce : undefined,
+    link: event.type === "email.clicked" ? event.data.click.link : undefined,
+    reason: reasonOf(event),
+  });
+
+/**
+ * Turns the requested `scheduledAt` into an ISO timestamp. Only full ISO 8601
+ * timestamps with an offset are converted locally; anything else, such as
+ * "in 1 hour" or "March 5", is resolved by Resend, so the email is fetched.
+ * Failures return undefined rather than failing a send that already happened.
+ */
+const resolveScheduledAt = async (
+  resend: Resend,
+  id: string,
+  scheduledAt: string | undefined
+): Promise<string | undefined> => {
+  if (!scheduledAt) {
+    return;
+  }
+  const parsed = Date.parse(scheduledAt);
+  if (ISO_TIMESTAMP_PATTERN.test(scheduledAt) && !Number.isNaN(parsed)) {
+    return new Date(parsed).toISOString();
+  }
+  try {
+    const { data } = await resend.emails.get(id);
+    return data
+      ? getStringField(
+          data as unknown as Record<string, unknown>,
+          "scheduled_at",
+          "scheduledAt"
+        )
+      : undefined;
+  } catch {
+    return;
+  }
+};
+
+interface TemplateInput {
+  template?: { id: string; variables?: Record<string, TemplateVariableValue> };
+}
+
+type PreparedSend<T> =
+  | {
+      allowed: true;
+      email: T;
+      violations?: PolicyViolation[];
+      sandbox?: SandboxRedirect;
+      templateValidation?: TemplateValidation;
+    }
+  | {
+      allowed: false;
+      failure: ToolError;
+      violations?: PolicyViolation[];
+      templateValidation?: TemplateValidation;
+    };
+
+const checkTemplateInput = async (
+  getClient: ToolContext["getClient"],
+  enabled: boolean,
+  template: TemplateInput["template"]
+): Promise<TemplateCheck> => {
+  if (!(enabled && template)) {
+    return { valid: true };
+  }
+  try {
+    return await checkTemplate(getClient(), template);
+  } catch (error) {
+    return {
+      valid: false,
+      failure: toToolError(error, "Failed to validate template"),
+    };
+  }
+};
+
+const prepareSend = async <T extends OutgoingEmail & TemplateInput>(
+  context: Pick<ToolContext, "getClient" | "senderPolicy" | "recipientPolicy">,
+  validateTemplate: boolean,
+  input: T
+): Promise<PreparedSend<T>> => {
+  const prepared = prepareEmail(context, input);
+  if (!prepared.allowed) {
+    return {
+      allowed: false,
+      violations: prepared.violations,
+      failure: validationError(prepared.error),
+    };
+  }
+  const violations =
+    prepared.violations.length > 0 ? prepared.violations : undefined;
+
+  const templateCheck = await checkTemplateInput(
+    context.getClient,
+    validateTemplate,
+    prepared.email.template
+  );
+  if (!templateCheck.valid) {
+    return {
+      allowed: false,
+      violations,
+      templateValidation: templateCheck.validation,
+      failure: templateCheck.failure,
+    };
+  }
+
+  return {
+    allowed: true,
+    email: prepared.email,
+    violations,
+    sandbox: prepared.sandbox,
+    templateValidation: templateCheck.validation,
+  };
+};
+
+export const createSendEmailTool = ({
+  getClient,
+  logger,
+  emailDomain,
+  senderPolicy,
+  recipientPolicy,
+  dryRun,
+  idempotency,
+  quota,
+  validateTemplates,
+}: ToolContext) =>
+  defineTool({
+    description:
+      "Send an email to one or more recipients using Resend. " +
+      "Use this tool when the user wants to send a transactional email, notification, welcome message, or any email. " +
+      "Supports HTML content, plain text, templates, attachments, tags, CC, BCC, reply-to, topic-based sending, and scheduled delivery. " +
+      "Returns the email ID which can be used to track delivery status." +
+      (emailDomain ? ` The verified sending domain is ${emailDomain}.` : ""),
+    inputSchema: z.object({
+      from: z
+        .string()
+        .describe(
+          `Sender email address.${describeSenderPolicy(senderPolicy)} To include a friendly name, use the format "Your Name <sender@domain.com>"`
+        ),
+      to: z
+        .array(z.string())
+        .min(1)
+        .max(50)
+        .describe(
+          "Recipient email address(es). Provide as an array of strings. Max 50."
+        ),
+      subject: z.string().describe("Email subject line"),
+      html: z
+        .string()
+        .optional()
+        .describe(
+          "HTML version of the message. Cannot be used together with template."
+        ),
+      text: z
+        .string()
+        .optional()
+        .describe(
+          "Plain text version of the message. If not provided, a plain text version is generated from the HTML."
+        ),
+      replyTo: z
+        .union([z.string(), z.array(z.string())])
+        .optional()
+        .describe(
+          "Reply-to email address. For multiple addresses, send as an array of strings."
+        ),
+      cc: z
+        .array(z.string())
+        .optional()
+        .describe("CC recipient email address(es)"),
+      bcc: z
+        .array(z.string())
+        .optional()
+        .describe("BCC recipient email address(es)"),
+      scheduledAt: z
+        .string()
+        .optional()
+        .describe(
+          'Schedule email for later delivery. Use natural language (e.g., "in 1 min") or ISO 8601 format (e.g., "2024-08-05T11:52:01.858Z").'
+        ),
+      tags: z
+        .array(
+          z.object({
+            name: z
+              .string()
+              .describe(
+                "Tag name. Only ASCII letters, numbers, underscores, or dashes. Max 256 characters."
+              ),
+            value: z
+              .string()
+              .describe(
+                "Tag value. Only ASCII letters, numbers, underscores, or dashes. Max 256 characters."
+              ),
+          })
+        )
+        .optional()
+        .describe("Custom data passed in key/value pairs for tracking"),
+      attachments: z
+        .array(
+          z.object({
+            filename: z
+              .string()
+              .optional()
+              .describe("Name of the attached file"),
+            content: z
+              .string()
+              .optional()
+              .describe("Content of the attached file as a Base64 string"),
+            path: z
+              .string()
+              .optional()
+              .describe("URL path where the attachment file is hosted"),
+            contentType: z
+              .string()
+              .optional()
+              .describe(
+                "Content type for the attachment. If not set, derived from filename."
+              ),
+          })
+        )
+        .optional()
+        .describe(
+          "File attachments. Provide either content (Base64) or path (URL) for each. Max 40MB per email after encoding."
+        ),
+      template: z
+        .object({
+          id: z
+            .string()
+            .describe("The ID or alias of the published email template"),
+          variables: z
+            .record(z.string(), z.union([z.string(), z.number()]))
+            .optional()
+            .describe("Template variables as key/value pairs"),
+        })
+        .optional()
+        .describe(
+          "Send using a published template instead of html/text. Cannot be used together with html, text, or react."
+        ),
+      validateTemplate: z
+        .boolean()
+        .optional()
+        .describe(
+          "Check the template variables against the template definition before sending. Reports missing, unknown, and mistyped variables and which fallbacks will be used."
+        ),
+      topicId: z
+        .string()
+        .optional()
+        .describe(
+          "Topic ID for topic-based sending. Contacts who opted out of this topic will not receive the email."
+        ),
+      idempotencyKey: IdempotencyKeyInputSchema,
+      dryRun: DryRunInputSchema,
+    }),
+    inputExamples: [
+      {
+        input: {
+          from: "Acme <hello@acme.com>",
+          to: ["user@example.com"],
+          subject: "Welcome!",
+          html: "<h1>Welcome!</h1><p>Thanks for signing up.</p>",
+        },
+      },
+      {
+        input: {
+          from: "noreply@acme.com",
+          to: ["user@example.com"],
+          subject: "Your receipt",
+          text: "Thank you for your purchase.",
+          replyTo: "support@acme.com",
+          tags: [{ name: "category", value: "receipt" }],
+        },
+      },
+    ],
+    outputSchema: SendResultSchema,
+    strict: true,
+    execute: async (
+      {
+        dryRun: dryRunInput,
+        idempotencyKey: keyInput,
+        validateTemplate,
+        ...input
+      },
+      { toolCallId, experimental_context }
+    ) => {
+      const prepared = await prepareSend(
+        { getClient, senderPolicy, recipientPolicy },
+        validateTemplate ?? validateTemplates,
+        input
+      );
+      if (!prepared.allowed) {
+        return {
+          success: false,
+          id: "",
+          violations: prepared.violations,
+          templateValidation: prepared.templateValidation,
+          ...prepared.failure,
+        };
+      }
+      const { email, sandbox, violations, templateValidation } = prepared;
+
+      const params = withoutUndefined(email);
+      const idempotencyKey = await idempotency.resolveKey(
+        keyInput,
+        toolCallId,
+        params
+      );
+
+      if (dryRun || dryRunInput) {
+        return {
+          success: true,
+          id: createDryRunId(),
+          violations,
+          sandbox,
+          templateValidation,
+          idempotencyKey,
+          dryRun: true,
+          payload: params,
+        };
+      }
+
+      // Gives the quota reservation back if the send throws before Resend answers.
+      let releaseUnsent: (() => Promise<void>) | undefined;
+      try {
+        const previous = await idempotency.lookup(idempotencyKey);
+        if (previous) {
+          return {
+            success: true,
+            id: previous.ids[0] ?? "",
+            idempotencyKey,
+            duplicate: true,
+          };
+        }
+
+        const resend = getClient();
+        const reservation = await quota.reserve([email], experimental_context);
+        if (!reservation.ok) {
+          return { success: false, id: "", ...reservation.failure };
+        }
+
+        releaseUnsent = () => reservation.release([email]);
+        const { data, error } = await resend.emails.send(
+          params as unknown as Parameters<typeof resend.emails.send>[0],
+          { idempotencyKey }
+        );
+        releaseUnsent = undefined;
+
+        if (error) {
+          await reservation.release([email]);
+          return {
+            success: false,
+            id: "",
+            violations,
+            ...toToolError(error),
+          };
+        }
+
+        const id = data?.id ?? "";
+        await idempotency.remember(idempotencyKey, { ids: [id] });
+
+        return {
+          success: true,
+          id,
+          from: email.from === input.from ? undefined : email.from,
+          violations,
+          sandbox,
+          templateValidation,
+          scheduledAt: await resolveScheduledAt(resend, id, email.scheduledAt),
+          idempotencyKey,
+        };
+      } catch (error) {
+        logger.error("Error sending email", { error });
+        await releaseUnsent?.();
+        return {
+          success: false,
+          id: "",
+          ...toToolError(error, "Failed to send email"),
+        };
+      }
+    },
+  });
+
+export const createSendBatchEmailsTool = ({
+  getClient,
+  logger,
+  emailDomain,
+  senderPolicy,
+  recipientPolicy,
+  dryRun,
+  idempotency,
+  quota,
+  batch,
+}: ToolContext) =>
+  defineTool({
+    description:
+      "Send multiple emails at once using a single API call. " +
+      "Use this tool for bulk sending such as notifications to multiple users, batch alerts, or sending different emails to different recipients simultaneously. " +
+      `Each email supports the same options as sendEmail. Maximum ${batch.maxEmails} emails per call.` +
+      " The result reports the ID or error of each email by its index." +
+      (emailDomain ? ` The verified sending domain is ${emailDomain}.` : ""),
+    inputSchema: z.object({
+      emails: z
+        .array(
+          z.object({
+            from: z
+              .string()
+              .describe(
+                `Sender email address.${describeSenderPolicy(senderPolicy)} Format: "Your Name <sender@domain.com>"`
+              ),
+            to: z
+              .array(z.string())
+              .min(1)
+              .max(50)
+              .describe("Recipient email address(es)"),
+            subject: z.string().describe("Email subject line"),
+            html: z.string().optional().describe("HTML version of the message"),
+            text: z
+              .string()
+              .optional()
+              .describe("Plain text version of the message"),
+            replyTo: z
+              .array(z.string())
+              .optional()
+              .describe("Reply-to email address(es)"),
+            cc: z
+              .array(z.string())
+              .optional()
+              .describe("CC recipient email address(es)"),
+            bcc: z
+              .array(z.string())
+              .optional()
+              .describe("BCC recipient email address(es)"),
+            scheduledAt: z
+              .string()
+              .optional()
+              .describe("Schedule delivery using natural language or ISO 8601"),
+            tags: z
+              .array(
+                z.object({
+                  name: z.string().describe("Tag name"),
+                  value: z.string().describe("Tag value"),
+                })
+              )
+              .optional()
+              .describe("Custom data for tracking"),
+            attachments: z
+              .array(
+                z.object({
+                  filename: z.string().optional().describe("File name"),
+                  content: z
+                    .string()
+                    .optional()
+                    .describe("Base64 file content"),
+                  path: z
+                    .string()
+                    .optional()
+                    .describe("URL to the hosted file"),
+                })
+              )
+              .optional()
+              .describe("File attachments"),
+          })
+        )
+        .min(1)
+        .max(batch.maxEmails)
+        .describe(
+          `Array of email objects to send. Maximum ${batch.maxEmails} per call.`
+        ),
+      batchValidation: z
+        .enum(["strict", "permissive"])
+        .optional()
+        .describe(
+          `"strict" rejects the whole batch if any email is invalid; "permissive" sends the valid emails and reports errors for the rest. Default "${batch.validation}".`
+        ),
+      idempotencyKey: IdempotencyKeyInputSchema,
+      dryRun: DryRunInputSchema,
+    }),
+    inputExamples: [
+      {
+        input: {
+          emails: [
+            {
+              from: "Acme <hello@acme.com>",
+              to: ["alice@example.com"],
+              subject: "Welcome Alice!",
+              html: "<p>Welcome to Acme!</p>",
+            },
+            {
+              from: "Acme <hello@acme.com>",
+              to: ["bob@example.com"],
+              subject: "Welcome Bob!",
+              html: "<p>Welcome to Acme!</p>",
+            },
+          ],
+        },
+      },
+    ],
+    outputSchema: BatchSendResultSchema,
+    strict: true,
+    execute: async (
+      {
+        emails,
+        batchValidation,
+        idempotencyKey: keyInput,
+        dryRun: dryRunInput,
+      },
+      { toolCallId, experimental_context }
+    ) => {
+      const prepared = prepareBatch({ senderPolicy, recipientPolicy }, emails);
+      const violations =
+        prepared.violations.length > 0 ? prepared.violations : undefined;
+      if (!prepared.allowed) {
+        return {
+          success: false,
+          ids: [],
+          count: 0,
+          violations,
+          ...validationError(prepared.error),
+        };
+      }
+      const { sandbox } = prepared;
+      const sendable = prepared.emails.map((email) => withoutUndefined(email));
+      const idempotencyKey = await idempotency.resolveKey(
+        keyInput,
+        toolCallId,
+        sendable
+      );
+
+      if (dryRun || dryRunInput) {
+        const ids = sendable.map(() => createDryRunId());
+        return {
+          success: true,
+          ids,
+          count: ids.length,
+          violations,
+          sandbox,
+          idempotencyKey,
+          dryRun: true,
+          payload: sendable,
+        };
+      }
+
+      // Gives the quota reservation back if the send throws before Resend answers.
+      let releaseUnsent: (() => Promise<void>) | undefined;
+      try {
+        const previous = await idempotency.lookup(idempotencyKey);
+        if (previous) {
+          return {
+            success: true,
+            ids: previous.ids,
+            count: previous.ids.length,
+            idempotencyKey,
+            duplicate: true,
+          };
+        }
+
+        const resend = getClient();
+        const reservation = await quota.reserve(sendable, experimental_context);
+        if (!reservation.ok) {
+          return {
+            success: false,
+            ids: [],
+            count: 0,
+            ...reservation.failure,
+          };
+        }
+
+        releaseUnsent = () => reservation.release(sendable);
+        const results = await sendBatches(resend, sendable, {
+          concurrency: batch.concurrency,
+          validation: batchValidation ?? batch.validation,
+          idempotencyKey,
+          logger,
+        });
+        releaseUnsent = undefined;
+        const ids = results.flatMap((result) =>
+          result.id === undefined ? [] : [result.id]
+        );
+        const failure = summarizeBatchFailures(results);
+        if (!failure) {
+          await idempotency.remember(idempotencyKey, { ids });
+        }
+        await reservation.release(
+          results.flatMap(({ index, id }) => {
+            const email = sendable[index];
+            return id === undefined && email ? [email] : [];
+          })
+        );
+
+        return {
+          success: !failure,
+          ids,
+          count: ids.length,
+          results,
+          violations,
+          sandbox,
+          idempotencyKey,
+          ...failure,
+        };
+      } catch (error) {
+        logger.error("Error sending batch emails", { error });
+        await releaseUnsent?.();
+        return {
+          success: false,
+          ids: [],
+          count: 0,
+          ...toToolError(error, "Failed to send batch emails"),
+        };
+      }
+    },
+  });
+
+export const createGetEmailTool = ({ getClient, logger }: ToolContext) =>
+  defineTool({
+    description:
+      "Retrieve the status and metadata of a previously sent email by its ID. " +
+      "Use this tool to check if an email was delivered, bounced, or is still pending. " +
+      "Returns delivery status, recipient info, and timestamps.",
+    inputSchema: z.object({
+      emailId: z
+        .string()
+        .describe("The ID of the email to retrieve (returned by sendEmail)"),
+    }),
+    inputExamples: [
+      { input: { emailId: "4ef9a417-02e9-4d39-ad75-9611e0bf7a83" } },
+    ],
+    outputSchema: GetEmailResultSchema,
+    strict: true,
+    execute: async ({ emailId }) => {
+      try {
+        const resend = getClient();
+        const { data, error } = await resend.emails.get(emailId);
+
+        if (error) {
+          return {
+            success: false,
+            id: emailId,
+            ...toToolError(error),
+          };
+        }
+
+        const email = data as unknown as Record<string, unknown>;
+
+        return {
+          success: true,
+          id: String(email.id ?? emailId),
+          from: String(email.from ?? ""),
+          to: toStringArray(email.to),
+          subject: String(email.subject ?? ""),
+          lastEvent: getStringField(email, "last_event", "lastEvent") ?? "",
+          createdAt: getStringField(email, "created_at", "createdAt") ?? "",
+          scheduledAt: getStringField(email, "scheduled_at", "scheduledAt"),
+        };
+      } catch (error) {
+        logger.error("Error retrieving email", { error });
+        return {
+          success: false,
+          id: emailId,
+          ...toToolError(error, "Failed to retrieve email"),
+        };
+      }
+    },
+  });
+
+/**
+ * Whether polling can stop: the email reached one of the events, or ended in
+ * a final event that rules them out.
+ */
+const waitOutcome = (
+  lastEvent: string | undefined,
+  events: WaitableEvent[]
+) => {
+  if (!lastEvent) {
+    return;
+  }
+  if (reachedEvent(lastEvent, events)) {
+    return { success: true };
+  }
+  if (FINAL_EVENTS.has(lastEvent)) {
+    return {
+      success: false,
+      ...undeliverableError(
+        `The email ended with ${lastEvent} and will not reach ${events.join(", ")}.`
+      ),
+    };
+  }
+  return;
+};
+
+export const createWaitForEmailEventTool = ({
+  getClient,
+  logger,
+}: ToolContext) =>
+  defineTool({
+    description:
+      "Wait until a sent email reaches a delivery event, such as delivered or bounced, instead of calling getEmail repeatedly. " +
+      "Use this tool to confirm delivery before telling the user an email arrived. " +
+      "Polls the email with increasing delays until its last event matches, it ends in a final event such as bounced, or the timeout expires. " +
+      "Later events count as reaching earlier ones, so an opened email has been delivered.",
+    inputSchema: z.object({
+      emailId: z
+        .string()
+        .describe("The ID of the email to wait for (returned by sendEmail)"),
+      events: z
+        .array(WaitableEventSchema)
+        .min(1)
+        .optional()
+        .describe(
+          "Events to wait for. Defaults to delivered, bounced, complained, failed, and canceled"
+        ),
+      timeoutSeconds: z
+        .number()
+        .int()
+        .min(1)
+        .max(600)
+        .optional()
+        .describe("How long to wait before giving up. Defaults to 60 seconds"),
+    }),
+    inputExamples: [
+      { input: { emailId: "4ef9a417-02e9-4d39-ad75-9611e0bf7a83" } },
+      {
+        input: {
+          emailId: "4ef9a417-02e9-4d39-ad75-9611e0bf7a83",
+          events: ["delivered", "bounced"],
+          timeoutSeconds: 120,
+        },
+      },
+    ],
+    outputSchema: WaitForEmailEventResultSchema,
+    strict: true,
+    execute: async (
+      { emailId, events = DEFAULT_WAIT_EVENTS, timeoutSeconds = 60 },
+      { abortSignal }
+    ) => {
+      const startedAt = Date.now();
+      const deadline = startedAt + timeoutSeconds * 1000;
+      let lastEvent: string | undefined;
+
+      try {
+        const resend = getClient();
+        for (let attempt = 0; ; attempt++) {
+          abortSignal?.throwIfAborted();
+          const { data, error } = await resend.emails.get(emailId);
+          if (error) {
+            return {
+              success: false,
+              id: emailId,
+              lastEvent,
+              elapsedMs: Date.now() - startedAt,
+              ...toToolError(error),
+            };
+          }
+
+          lastEvent = lastEventOf(data);
+          const outcome = waitOutcome(lastEvent, events);
+          if (outcome) {
+            return {
+              id: emailId,
+              lastEvent,
+              elapsedMs: Date.now() - startedAt,
+              ...outcome,
+            };
+          }
+
+          const remaining = deadline - Date.now();
+          if (remaining <= 0) {
+            return {
+              success: false,
+              id: emailId,
+              lastEvent,
+              elapsedMs: Date.now() - startedAt,
+              timedOut: true,
+              ...timeoutError(
+                `Timed out after ${timeoutSeconds}s waiting for ${events.join(", ")}. The last event was ${lastEvent ?? "unknown"}.`
+              ),
+            };
+          }
+          await sleep(
+            Math.min(
+              remaining,
+              POLL_BASE_DELAY_MS * 2 ** attempt,
+              POLL_MAX_DELAY_MS
+            ),
+            abortSignal
+          );
+        }
+      } catch (error) {
+        // An aborted generation has no use for a result.
+        if (abortSignal?.aborted) {
+          throw error;
+        }
+        logger.error("Error waiting for email event", { error });
+        return {
+          success: false,
+          id: emailId,
+          lastEvent,
+          elapsedMs: Date.now() - startedAt,
+          ...toToolError(error, "Failed to wait for email event"),
+        };
+      }
+    },
+  });
+
+export const createGetEmailEventsTool = ({ events, logger }: ToolContext) =>
+  defineTool({
+    description:
+      "Retrieve the delivery timeline of a sent email from Resend webhook events. " +
+      "Use this tool to see when an email was sent, delivered, opened, or clicked, and why it bounced or was marked as spam. " +
+      "Returns every event received so far, oldest first. Events only appear once Resend has delivered them to the webhook.",
+    inputSchema: z.object({
+      emailId: z
+        .string()
+        .describe("The ID of the email (returned by sendEmail)"),
+    }),
+    inputExamples: [
+      { input: { emailId: "4ef9a417-02e9-4d39-ad75-9611e0bf7a83" } },
+    ],
+    outputSchema: GetEmailEventsResultSchema,
+    strict: true,
+    execute: async ({ emailId }) => {
+      if (!events) {
+        return {
+          success: false,
+          emailId,
+          events: [],
+          count: 0,
+          ...notConfiguredError(
+            "No webhook event store is configured. Pass the events option to createResendTools."
+          ),
+        };
+      }
+
+      try {
+        const timeline = (await events.list(emailId)).map(({ event }) =>
+          toEventInfo(event)
+        );
+
+        return {
+          success: true,
+          emailId,
+          events: timeline,
+          count: timeline.length,
+          lastEvent: timeline.at(-1)?.type,
+        };
+      } catch (error) {
+        logger.error("Error retrieving email events", { error });
+        return {
+          success: false,
+          emailId,
+          events: [],
+          count: 0,
+          ...toToolError(error, "Failed to retrieve email events"),
+        };
+      }
+    },
+  });
+
+export const createListEmailsTool = ({ getClient, logger }: ToolContext) =>
+  defineTool({
+    description:
+      "List recently sent emails from your Resend account. " +
+      "Use this tool to browse sent email history, review delivery statuses, or find a specific email. " +
+      "Returns email IDs, subjects, recipients, and delivery events. " +
+      "Supports pagination via limit, after, and before, and client-side filters on recipient, subject, last event, and creation date. " +
+      "Set autoPaginate to search across several pages.",
+    inputSchema: z.object({
+      ...paginationInputFields("emails"),
+      to: z
+        .string()
+        .optional()
+        .describe(
+          "Only emails with a recipient containing this text (case-insensitive), e.g. an address or '@acme.com'"
+        ),
+      subject: z
+        .string()
+        .optional()
+        .describe(
+          "Only emails whose subject contains this text (case-insensitive)"
+        ),
+      lastEvent: z
+        .string()
+        .optional()
+        .describe(
+          "Only emails whose last delivery event matches (e.g., 'delivered', 'bounced', 'complained')"
+        ),
+      createdAfter: z
+        .string()
+        .optional()
+        .describe("Only emails created at or after this ISO 8601 timestamp"),
+      createdBefore: z
+        .string()
+        .optional()
+        .describe("Only emails created at or before this ISO 8601 timestamp"),
+    }),
+    inputExamples: [
+      { input: {} },
+      { input: { lastEvent: "bounced", autoPaginate: true, maxPages: 3 } },
+    ],
+    outputSchema: ListEmailsResultSchema,
+    strict: true,
+    execute: async ({
+      to,
+      subject,
+      lastEvent,
+      createdAfter,
+      createdBefore,
+      ...pagination
+    }) => {
+      try {
+        const resend = getClient();
+        const result = await walkPages(
+          async (cursor) => {
+            const { data, error } = await resend.emails.list(
+              cursor as Parameters<typeof resend.emails.list>[0]
+            );
+            if (error) {
+              return { items: [], hasMore: false, error };
+            }
+            const page = data as unknown as Record<string, unknown>;
+            const rawEmails =
+              (page.data as Record<string, unknown>[] | undefined) ?? [];
+            return {
+              items: rawEmails.map((email) => ({
+                id: String(email.id ?? ""),
+                from: String(email.from ?? ""),
+                to: toStringArray(email.to),
+                subject: String(email.subject ?? ""),
+                lastEvent:
+                  getStringField(email, "last_event", "lastEvent") ?? "",
+                createdAt:
+                  getStringField(email, "created_at", "createdAt") ?? "",
+              })),
+              hasMore: Boolean(page.has_more ?? false),
+            };
+          },
+          (email) =>
+            (to === undefined ||
+              email.to.some((recipient) => includesText(recipient, to))) &&
+            includesText(email.subject, subject) &&
+            (lastEvent === undefined ||
+              email.lastEvent.toLowerCase() === lastEvent.toLowerCase()) &&
+            inDateRange(email.createdAt, createdAfter, createdBefore),
+          pagination
+        );
+
+        if (!result.ok) {
+          return {
+            emails: [],
+            count: 0,
+            ...toToolError(result.error),
+          };
+        }
+
+        return {
+          emails: result.items,
+          count: result.items.length,
+          hasMore: result.hasMore,
+          nextCursor: result.nextCursor,
+        };
+      } catch (error) {
+        logger.error("Error listing emails", { error });
+        return {
+          emails: [],
+          count: 0,
+          ...toToolError(error, "Failed to list emails"),
+        };
+      }
+    },
+  });
+
+export const createUpdateScheduledEmailTool = ({
+  getClient,
+  dryRun,
+  logger,
+}: ToolContext) =>
+  defineTool({
+    description:
+      "Change when a scheduled email is sent. " +
+      "Use this tool for requests like 'push that reminder to Monday morning'. " +
+      "Only emails that were sent with scheduledAt and have not gone out yet can be rescheduled.",
+    inputSchema: z.object({
+      id: z.string().describe("The ID of the scheduled email"),
+      scheduledAt: z
+        .string()
+        .describe(
+          'New delivery time. Use natural language (e.g., "in 1 hour") or ISO 8601 format (e.g., "2024-08-05T11:52:01.858Z").'
+        ),
+      dryRun: DryRunInputSchema,
+    }),
+    inputExamples: [
+      {
+        input: {
+          id: "4ef9a417-02e9-4d39-ad75-9611e0bf7a83",
+          scheduledAt: "2024-08-05T09:00:00.000Z",
+        },
+      },
+    ],
+    outputSchema: UpdateScheduledEmailResultSchema,
+    strict: true,
+    execute: async ({ id, scheduledAt, dryRun: dryRunInput }) => {
+      if (dryRun || dryRunInput) {
+        return {
+          success: true,
+          id,
+          dryRun: true,
+          payload: { id, scheduledAt },
+        };
+      }
+
+      try {
+        const resend = getClient();
+        const { error } = await resend.emails.update({ id, scheduledAt });
+
+        if (error) {
+          return {
+            success: false,
+            id,
+            ...toToolError(error),
+          };
+        }
+
+        return {
+          success: true,
+          id,
+          scheduledAt: await resolveScheduledAt(resend, id, scheduledAt),
+        };
+      } catch (error) {
+        logger.error("Error rescheduling email", { error });
+        return {
+          success: false,
+          id,
+          ...toToolError(error, "Failed to reschedule email"),
+        };
+      }
+    },
+  });
+
+export const createCancelScheduledEmailTool = ({
+  getClient,
+  dryRun,
+  logger,
+}: ToolContext) =>
+  defineTool({
+    description:
+      "Cancel a scheduled email so it is never sent. " +
+      "Use this tool when the user changes their mind about an email that was sent with scheduledAt, e.g. 'don't send that reminder'.",
+    inputSchema: z.object({
+      id: z.string().describe("The ID of the scheduled email to cancel"),
+      dryRun: DryRunInputSchema,
+    }),
+    inputExamples: [{ input: { id: "4ef9a417-02e9-4d39-ad75-9611e0bf7a83" } }],
+    outputSchema: CancelScheduledEmailResultSchema,
+    strict: true,
+    execute: async ({ id, dryRun: dryRunInput }) => {
+      if (dryRun || dryRunInput) {
+        return {
+          success: true,
+          id,
+          cancelled: false,
+          dryRun: true,
+          payload: { id },
+        };
+      }
+
+      try {
+        const resend = getClient();
+        const { error } = await resend.emails.cancel(id);
+
+        if (error) {
+          return {
+            success: false,
+            id,
+            cancelled: false,
+            ...toToolError(error),
+          };
+        }
+
+        return {
+          success: true,
+          id,
+          cancelled: true,
+        };
+      } catch (error) {
+        logger.error("Error cancelling email", { error });
+        return {
+          success: false,
+          id,
+          cancelled: false,
+          ...toToolError(error, "Failed to cancel email"),
+        };
+      }
+    },
+  });
@@ -0,0 +1,383 @@
+import { z } from "zod";
+import type { ToolContext } from "../config.js";
+import { defineTool } from "../define-tool.js";
+import { toToolError } from "../errors.js";
+import {
+  ContactSegmentResultSchema,
+  CreateSegmentResultSchema,
+  DryRunInputSchema,
+  GetSegmentResultSchema,
+  ListSegmentsResultSchema,
+  RemoveSegmentResultSchema,
+} from "../schemas.js";
+import {
+  createDryRunId,
+  getStringField,
+  toContactLookup,
+  withoutUndefined,
+} from "../utils.js";
+
+export const createListSegmentsTool = ({ getClient, logger }: ToolContext) =>
+  defineTool({
+    description:
+      "List contact segments in your Resend account. " +
+      "Use this tool to find a segment's ID by its name, for example before adding a contact to it or creating a broadcast. " +
+      "Supports pagination via limit, after, and before parameters.",
+    inputSchema: z.object({
+      limit: z
+        .number()
+        .min(1)
+        .max(100)
+        .optional()
+        .describe("Number of segments to retrieve. Default 20, max 100."),
+      after: z
+        .string()
+        .optional()
+        .describe(
+          "Segment ID after which to retrieve more segments (for forward pagination). Cannot be used with before."
+        ),
+      before: z
+        .string()
+        .optional()
+        .describe(
+          "Segment ID before which to retrieve more segments (for backward pagination). Cannot be used with after."
+        ),
+    }),
+    inputExamples: [{ input: {} }, { input: { limit: 50 } }],
+    outputSchema: ListSegmentsResultSchema,
+    strict: true,
+    execute: async ({ limit, after, before }) => {
+      try {
+        const resend = getClient();
+        const { data, error } = await resend.segments.list(
+          withoutUndefined({ limit, after, before }) as Parameters<
+            typeof resend.segments.list
+          >[0]
+        );
+
+        if (error) {
+          return {
+            segments: [],
+            count: 0,
+            ...toToolError(error),
+          };
+        }
+
+        const result = data as unknown as Record<string, unknown>;
+        const rawSegments =
+          (result.data as Record<string, unknown>[] | undefined) ?? [];
+
+        const segments = rawSegments.map((segment) => ({
+          id: String(segment.id ?? ""),
+          name: String(segment.name ?? ""),
+          createdAt: getStringField(segment, "created_at", "createdAt"),
+        }));
+
+        return {
+          segments,
+          count: segments.length,
+          hasMore: Boolean(result.has_more ?? false),
+        };
+      } catch (error) {
+        logger.error("Error listing segments", { error });
+        return {
+          segments: [],
+          count: 0,
+          ...toToolError(error, "Failed to list segments"),
+        };
+      }
+    },
+  });
+
+export const createGetSegmentTool = ({ getClient, logger }: ToolContext) =>
+  defineTool({
+    description:
+      "Retrieve a contact segment by its ID. " +
+      "Use this tool to confirm a segment's name before changing its members.",
+    inputSchema: z.object({
+      id: z.string().describe("The ID of the segment to retrieve"),
+    }),
+    inputExamples: [{ input: { id: "78261eea-8f8b-4381-83c6-79fa7120f1cf" } }],
+    outputSchema: GetSegmentResultSchema,
+    strict: true,
+    execute: async ({ id }) => {
+      try {
+        const resend = getClient();
+        const { data, error } = await resend.segments.get(id);
+
+        if (error) {
+          return {
+            success: false,
+            id,
+            ...toToolError(error),
+          };
+        }
+
+        const result = data as unknown as Record<string, unknown>;
+        return {
+          success: true,
+          id: String(result.id ?? id),
+          name: result.name ? String(result.name) : undefined,
+          createdAt: getStringField(result, "created_at", "createdAt"),
+        };
+      } catch (error) {
+        logger.error("Error getting segment", { error });
+        return {
+          success: false,
+          id,
+          ...toToolError(error, "Failed to get segment"),
+        };
+      }
+    },
+  });
+
+export const createCreateSegmentTool = ({
+  getClient,
+  dryRun,
+  logger,
+}: ToolContext) =>
+  defineTool({
+    description:
+      "Create a new contact segment. " +
+      "Use this tool when the user wants a new group of contacts, such as beta testers or newsletter subscribers.",
+    inputSchema: z.object({
+      name: z.string().describe("Name of the segment"),
+      dryRun: DryRunInputSchema,
+    }),
+    inputExamples: [{ input: { name: "Beta testers" } }],
+    outputSchema: CreateSegmentResultSchema,
+    strict: true,
+    execute: async ({ name, dryRun: dryRunInput }) => {
+      if (dryRun || dryRunInput) {
+        return {
+          success: true,
+          id: createDryRunId(),
+          name,
+          dryRun: true,
+          payload: { name },
+        };
+      }
+
+      try {
+        const resend = getClient();
+        const { data, error } = await resend.segments.create({ name });
+
+        if (error) {
+          return {
+            success: false,
+            id: "",
+            ...toToolError(error),
+          };
+        }
+
+        return {
+          success: true,
+          id: data?.id ?? "",
+          name: data?.name ?? name,
+        };
+      } catch (error) {
+        logger.error("Error creating segment", { error });
+        return {
+          success: false,
+          id: "",
+          ...toToolError(error, "Failed to create segment"),
+        };
+      }
+    },
+  });
+
+export const createRemoveSegmentTool = ({
+  getClient,
+  dryRun,
+  logger,
+}: ToolContext) =>
+  defineTool({
+    description:
+      "Permanently remove a contact segment. The contacts themselves are kept. " +
+      "Use only when the user explicitly wants to delete a segment. " +
+      "WARNING: This action is irreversible.",
+    inputSchema: z.object({
+      id: z.string().describe("The ID of the segment to remove"),
+      dryRun: DryRunInputSchema,
+    }),
+    inputExamples: [{ input: { id: "78261eea-8f8b-4381-83c6-79fa7120f1cf" } }],
+    outputSchema: RemoveSegmentResultSchema,
+    strict: true,
+    execute: async ({ id, dryRun: dryRunInput }) => {
+      if (dryRun || dryRunInput) {
+        return {
+          success: true,
+          deleted: false,
+          id,
+          dryRun: true,
+          payload: { id },
+        };
+      }
+
+      try {
+        const resend = getClient();
+        const { data, error } = await resend.segments.remove(id);
+
+        if (error) {
+          return {
+            success: false,
+            deleted: false,
+            id,
+            ...toToolError(error),
+          };
+        }
+
+        const result = data as unknown as Record<string, unknown>;
+        return {
+          success: true,
+          deleted: Boolean(result.deleted ?? true),
+          id: String(result.id ?? id),
+        };
+      } catch (error) {
+        logger.error("Error removing segment", { error });
+        return {
+          success: false,
+          deleted: false,
+          id,
+          ...toToolError(error, "Failed to remove segment"),
+        };
+      }
+    },
+  });
+
+const contactSegmentInputSchema = z.object({
+  contact: z.string().describe("The ID or email address of the contact"),
+  segmentId: z
+    .string()
+    .describe("The ID of the segment (use listSegments to find it by name)"),
+  dryRun: DryRunInputSchema,
+});
+
+export const createAddContactToSegmentTool = ({
+  getClient,
+  dryRun,
+  logger,
+}: ToolContext) =>
+  defineTool({
+    description:
+      "Add an existing contact to a segment. " +
+      "Use this tool when the user wants to put someone into a group, e.g. 'add Jane to the beta testers'. " +
+      "Look up the segment ID with listSegments first.",
+    inputSchema: contactSegmentInputSchema,
+    inputExamples: [
+      {
+        input: {
+          contact: "jane@example.com",
+          segmentId: "78261eea-8f8b-4381-83c6-79fa7120f1cf",
+        },
+      },
+    ],
+    outputSchema: ContactSegmentResultSchema,
+    strict: true,
+    execute: async ({ contact, segmentId, dryRun: dryRunInput }) => {
+      const params = { ...toContactLookup(contact), segmentId };
+      if (dryRun || dryRunInput) {
+        return {
+          success: true,
+          contact,
+          segmentId,
+          dryRun: true,
+          payload: params,
+        };
+      }
+
+      try {
+        const resend = getClient();
+        const { error } = await resend.contacts.segments.add(
+          params as Parameters<typeof resend.contacts.segments.add>[0]
+        );
+
+        if (error) {
+          return {
+            success: false,
+            contact,
+            segmentId,
+            ...toToolError(error),
+          };
+        }
+
+        return {
+          success: true,
+          contact,
+          segmentId,
+        };
+      } catch (error) {
+        logger.error("Error adding contact to segment", { error });
+        return {
+          success: false,
+          contact,
+          segmentId,
+          ...toToolError(error, "Failed to add contact to segment"),
+        };
+      }
+    },
+  });
+
+export const createRemoveContactFromSegmentTool = ({
+  getClient,
+  dryRun,
+  logger,
+}: ToolContext) =>
+  defineTool({
+    description:
+      "Remove a contact from a segment. The contact itself is kept. " +
+      "Use this tool when the user wants to take someone out of a group.",
+    inputSchema: contactSegmentInputSchema,
+    inputExamples: [
+      {
+        input: {
+          contact: "jane@example.com",
+          segmentId: "78261eea-8f8b-4381-83c6-79fa7120f1cf",
+        },
+      },
+    ],
+    outputSchema: ContactSegmentResultSchema,
+    strict: true,
+    execute: async ({ contact, segmentId, dryRun: dryRunInput }) => {
+      const params = { ...toContactLookup(contact), segmentId };
+      if (dryRun || dryRunInput) {
+        return {
+          success: true,
+          contact,
+          segmentId,
+          dryRun: true,
+          payload: params,
+        };
+      }
+
+      try {
+        const resend = getClient();
+        const { error } = await resend.contacts.segments.remove(
+          params as Parameters<typeof resend.contacts.segments.remove>[0]
+        );
+
+        if (error) {
+          return {
+            success: false,
+            contact,
+            segmentId,
+            ...toToolError(error),
+          };
+        }
+
+        return {
+          success: true,
+          contact,
+          segmentId,
+        };
+      } catch (error) {
+        logger.error("Error removing contact from segment", { error });
+        return {
+          success: false,
+          contact,
+          segmentId,
+          ...toToolError(error, "Failed to remove contact from segment"),
+        };
+      }
+    },
+  });
@@ -0,0 +1,589 @@
+import type { Resend } from "resend";
+import { z } from "zod";
+import type { ToolContext } from "../config.js";
+import { defineTool } from "../define-tool.js";
+import { toToolError, validationError } from "../errors.js";
+import {
+  DryRunInputSchema,
+  GetTemplateResultSchema,
+  ListTemplatesResultSchema,
+  RemoveTemplateResultSchema,
+  SaveTemplateResultSchema,
+} from "../schemas.js";
+import {
+  checkSender,
+  describeSenderPolicy,
+  type PolicyViolation,
+  type SenderPolicy,
+} from "../sender-policy.js";
+import { createDryRunId, getStringField, withoutUndefined } from "../utils.js";
+
+const mapTemplate = (
+  result: Record<string, unknown>,
+  id: string
+): z.infer<typeof GetTemplateResultSchema> => {
+  const rawVariables = result.variables as
+    | Record<string, unknown>[]
+    | undefined;
+  const variables = rawVariables?.map((v) => ({
+    id: String(v.id ?? ""),
+    key: String(v.key ?? ""),
+    type: String(v.type ?? "string"),
+    fallbackValue: getStringField(v, "fallback_value", "fallbackValue"),
+  }));
+
+  return {
+    success: true,
+    id: String(result.id ?? id),
+    name: result.name ? String(result.name) : undefined,
+    alias: result.alias ? String(result.alias) : undefined,
+    status: result.status ? String(result.status) : undefined,
+    from: result.from ? String(result.from) : undefined,
+    subject: result.subject ? String(result.subject) : undefined,
+    replyTo: getStringField(result, "reply_to", "replyTo"),
+    variables,
+    createdAt: getStringField(result, "created_at", "createdAt"),
+    updatedAt: getStringField(result, "updated_at", "updatedAt"),
+    publishedAt: getStringField(result, "published_at", "publishedAt"),
+  };
+};
+
+type TemplateSender =
+  | { ok: true; from?: string; violations?: PolicyViolation[] }
+  | { ok: false; error: string; violations: PolicyViolation[] };
+
+const resolveTemplateSender = (
+  senderPolicy: SenderPolicy,
+  from: string | undefined
+): TemplateSender => {
+  if (!from) {
+    return { ok: true };
+  }
+  const sender = checkSender(senderPolicy, from);
+  if (!sender.allowed) {
+    return {
+      ok: false,
+      error: sender.violation.reason,
+      violations: [sender.violation],
+    };
+  }
+  return {
+    ok: true,
+    from: sender.from,
+    violations: sender.violation ? [sender.violation] : undefined,
+  };
+};
+
+const loadSavedTemplate = async (
+  resend: Resend,
+  id: string,
+  violations?: PolicyViolation[]
+): Promise<z.infer<typeof SaveTemplateResultSchema>> => {
+  const { data } = await resend.templates.get(id);
+  if (!data) {
+    return { success: true, id, violations };
+  }
+  return {
+    ...mapTemplate(data as unknown as Record<string, unknown>, id),
+    violations,
+  };
+};
+
+const templateFieldsSchema = (senderPolicy: SenderPolicy) => ({
+  subject: z.string().optional().describe("Default subject line"),
+  text: z
+    .string()
+    .optional()
+    .describe(
+      "Plain text version. Generated from the HTML when omitted on creation."
+    ),
+  alias: z
+    .string()
+    .optional()
+    .describe("Unique alias for referencing the template (e.g., 'welcome')"),
+  from: z
+    .string()
+    .optional()
+    .describe(
+      `Default sender email address.${describeSenderPolicy(senderPolicy)}`
+    ),
+  replyTo: z
+    .union([z.string(), z.array(z.string())])
+    .optional()
+    .describe("Default reply-to email address(es)"),
+  variables: z
+    .array(
+      z.object({
+        key: z.string().describe("Variable key, used in the HTML as {{{KEY}}}"),
+        type: z.enum(["string", "number"]).describe("Variable type"),
+        fallbackValue: z
+          .union([z.string(), z.number()])
+          .optional()
+          .describe(
+            "Value used when the variable is not provided at send time. Must match the type."
+          ),
+      })
+    )
+    .optional()
+    .describe(
+      "Variables the template accepts. On update, this replaces the existing definitions."
+    ),
+});
+
+export const createListTemplatesTool = ({ getClient, logger }: ToolContext) =>
+  defineTool({
+    description:
+      "List email templates in your Resend account. " +
+      "Use this tool to browse available templates, find a template by name, or check template statuses. " +
+      "Returns template metadata including ID, name, alias, and status. " +
+      "Supports pagination via limit, after, and before parameters.",
+    inputSchema: z.object({
+      limit: z
+        .number()
+        .min(1)
+        .max(100)
+        .optional()
+        .describe("Number of templates to retrieve. Default 20, max 100."),
+      after: z
+        .string()
+        .optional()
+        .describe(
+          "Template ID after which to retrieve more templates (for forward pagination). Cannot be used with before."
+        ),
+      before: z
+        .string()
+        .optional()
+        .describe(
+          "Template ID before which to retrieve more templates (for backward pagination). Cannot be used with after."
+        ),
+    }),
+    inputExamples: [
+      { input: {} },
+      { input: { limit: 10 } },
+      {
+        input: {
+          limit: 5,
+          after: "34a080c9-b17d-4187-ad80-5af20266e535",
+        },
+      },
+    ],
+    outputSchema: ListTemplatesResultSchema,
+    strict: true,
+    execute: async ({ limit, after, before }) => {
+      try {
+        const resend = getClient();
+
+        const params: Record<string, unknown> = {};
+        if (limit !== undefined) {
+          params.limit = limit;
+        }
+        if (after !== undefined) {
+          params.after = after;
+        }
+        if (before !== undefined) {
+          params.before = before;
+        }
+
+        const { data, error } = await resend.templates.list(
+          params as Parameters<typeof resend.templates.list>[0]
+        );
+
+        if (error) {
+          return {
+            templates: [],
+            count: 0,
+            ...toToolError(error),
+          };
+        }
+
+        const result = data as unknown as Record<string, unknown>;
+        const rawTemplates =
+          (result.data as Record<string, unknown>[] | undefined) ?? [];
+
+        const templates = rawTemplates.map((tmpl) => ({
+          id: String(tmpl.id ?? ""),
+          name: String(tmpl.name ?? ""),
+          alias: tmpl.alias ? String(tmpl.alias) : undefined,
+          status: String(tmpl.status ?? ""),
+          createdAt: getStringField(tmpl, "created_at", "createdAt"),
+          updatedAt: getStringField(tmpl, "updated_at", "updatedAt"),
+          publishedAt: getStringField(tmpl, "published_at", "publishedAt"),
+        }));
+
+        return {
+          templates,
+          count: templates.length,
+          hasMore: Boolean(result.has_more ?? false),
+        };
+      } catch (error) {
+        logger.error("Error listing templates", { error });
+        return {
+          templates: [],
+          count: 0,
+          ...toToolError(error, "Failed to list templates"),
+        };
+      }
+    },
+  });
+
+export const createGetTemplateTool = ({ getClient, logger }: ToolContext) =>
+  defineTool({
+    description:
+      "Retrieve a specific email template by its ID or alias. " +
+      "Use this tool to inspect a template's variables, check its default from/subject/replyTo, or verify its status before sending. " +
+      "Returns the template metadata, defaults, and variables.",
+    inputSchema: z.object({
+      id: z.string().describe("The ID or alias of the template to retrieve"),
+    }),
+    inputExamples: [
+      { input: { id: "34a080c9-b17d-4187-ad80-5af20266e535" } },
+      { input: { id: "reset-password" } },
+    ],
+    outputSchema: GetTemplateResultSchema,
+    strict: true,
+    execute: async ({ id }) => {
+      try {
+        const resend = getClient();
+        const { data, error } = await resend.templates.get(id);
+
+        if (error) {
+          return {
+            success: false,
+            id,
+            ...toToolError(error),
+          };
+        }
+
+        return mapTemplate(data as unknown as Record<string, unknown>, id);
+      } catch (error) {
+        logger.error("Error getting template", { error });
+        return {
+          success: false,
+          id,
+          ...toToolError(error, "Failed to get template"),
+        };
+      }
+    },
+  });
+
+export const createCreateTemplateTool = ({
+  getClient,
+  dryRun,
+  logger,
+  senderPolicy,
+}: ToolContext) =>
+  defineTool({
+    description:
+      "Create a new email template as a draft. " +
+      "Use this tool when the user wants a reusable email, such as a welcome or password reset message. " +
+      "Reference variables in the HTML with triple braces, e.g. {{{FIRST_NAME}}}, and declare each one in variables. " +
+      "Call publishTemplate before sending with it.",
+    inputSchema: z.object({
+      name: z.string().describe("Name of the template"),
+      html: z.string().describe("HTML content of the template"),
+      ...templateFieldsSchema(senderPolicy),
+      dryRun: DryRunInputSchema,
+    }),
+    inputExamples: [
+      {
+        input: {
+          name: "Welcome",
+          alias: "welcome",
+          subject: "Welcome to Acme, {{{FIRST_NAME}}}!",
+          html: "<p>Hi {{{FIRST_NAME}}}, thanks for signing up.</p>",
+          variables: [
+            { key: "FIRST_NAME", type: "string", fallbackValue: "there" },
+          ],
+        },
+      },
+    ],
+    outputSchema: SaveTemplateResultSchema,
+    strict: true,
+    execute: async ({ from, dryRun: dryRunInput, ...input }) => {
+      const sender = resolveTemplateSender(senderPolicy, from);
+      if (!sender.ok) {
+        return {
+          success: false,
+          id: "",
+          violations: sender.violations,
+          ...validationError(sender.error),
+        };
+      }
+
+      const params = withoutUndefined({ ...input, from: sender.from });
+      if (dryRun || dryRunInput) {
+        return {
+          success: true,
+          id: createDryRunId(),
+          violations: sender.violations,
+          dryRun: true,
+          payload: params,
+        };
+      }
+
+      try {
+        const resend = getClient();
+        const { data, error } = await resend.templates.create(
+          params as Parameters<typeof resend.templates.create>[0]
+        );
+
+        if (error) {
+          return {
+            success: false,
+            id: "",
+            violations: sender.violations,
+            ...toToolError(error),
+          };
+        }
+
+        return await loadSavedTemplate(
+          resend,
+          data?.id ?? "",
+          sender.violations
+        );
+      } catch (error) {
+        logger.error("Error creating template", { error });
+        return {
+          success: false,
+          id: "",
+          ...toToolError(error, "Failed to create template"),
+        };
+      }
+    },
+  });
+
+export const createUpdateTemplateTool = ({
+  getClient,
+  dryRun,
+  logger,
+  senderPolicy,
+}: ToolContext) =>
+  defineTool({
+    description:
+      "Update an email template by its ID or alias. Only the provided fields are changed. " +
+      "Use this tool to fix a typo, change the subject or sender, or adjust variable fallbacks. " +
+      "Changes are saved as a draft; call publishTemplate to make them live.",
+    inputSchema: z.object({
+      id: z.string().describe("The ID or alias of the template to update"),
+      name: z.string().optional().describe("New name of the template"),
+      html: z.string().optional().describe("New HTML content"),
+      ...templateFieldsSchema(senderPolicy),
+      dryRun: DryRunInputSchema,
+    }),
+    inputExamples: [
+      {
+        input: {
+          id: "welcome",
+          subject: "Welcome aboard, {{{FIRST_NAME}}}!",
+        },
+      },
+    ],
+    outputSchema: SaveTemplateResultSchema,
+    strict: true,
+    execute: async ({ id, from, dryRun: dryRunInput, ...input }) => {
+      const sender = resolveTemplateSender(senderPolicy, from);
+      if (!sender.ok) {
+        return {
+          success: false,
+          id,
+          violations: sender.violations,
+          ...validationError(sender.error),
+        };
+      }
+
+      const params = withoutUndefined({ ...input, from: sender.from });
+      if (dryRun || dryRunInput) {
+        return {
+          success: true,
+          id,
+          violations: sender.violations,
+          dryRun: true,
+          payload: { id, ...params },
+        };
+      }
+
+      try {
+        const resend = getClient();
+        const { data, error } = await resend.templates.update(
+          id,
+          params as Parameters<typeof resend.templates.update>[1]
+        );
+
+        if (error) {
+          return {
+            success: false,
+            id,
+            violations: sender.violations,
+            ...toToolError(error),
+          };
+        }
+
+        return await loadSavedTemplate(
+          resend,
+          data?.id ?? id,
+          sender.violations
+        );
+      } catch (error) {
+        logger.error("Error updating template", { error });
+        return {
+          success: false,
+          id,
+          ...toToolError(error, "Failed to update template"),
+        };
+      }
+    },
+  });
+
+export const createPublishTemplateTool = ({
+  getClient,
+  dryRun,
+  logger,
+}: ToolContext) =>
+  defineTool({
+    description:
+      "Publish the current draft of an email template so it can be used when sending. " +
+      "Use this tool after createTemplate or updateTemplate once the user is happy with the content.",
+    inputSchema: z.object({
+      id: z.string().describe("The ID or alias of the template to publish"),
+      dryRun: DryRunInputSchema,
+    }),
+    inputExamples: [{ input: { id: "welcome" } }],
+    outputSchema: SaveTemplateResultSchema,
+    strict: true,
+    execute: async ({ id, dryRun: dryRunInput }) => {
+      if (dryRun || dryRunInput) {
+        return { success: true, id, dryRun: true, payload: { id } };
+      }
+
+      try {
+        const resend = getClient();
+        const { data, error } = await resend.templates.publish(id);
+
+        if (error) {
+          return {
+            success: false,
+            id,
+            ...toToolError(error),
+          };
+        }
+
+        return await loadSavedTemplate(resend, data?.id ?? id);
+      } catch (error) {
+        logger.error("Error publishing template", { error });
+        return {
+          success: false,
+          id,
+          ...toToolError(error, "Failed to publish template"),
+        };
+      }
+    },
+  });
+
+export const createDuplicateTemplateTool = ({
+  getClient,
+  dryRun,
+  logger,
+}: ToolContext) =>
+  defineTool({
+    description:
+      "Duplicate an email template. The copy is created as a draft with a new ID. " +
+      "Use this tool to start a new template from an existing one, e.g. a seasonal variant of the newsletter.",
+    inputSchema: z.object({
+      id: z.string().describe("The ID or alias of the template to duplicate"),
+      dryRun: DryRunInputSchema,
+    }),
+    inputExamples: [{ input: { id: "34a080c9-b17d-4187-ad80-5af20266e535" } }],
+    outputSchema: SaveTemplateResultSchema,
+    strict: true,
+    execute: async ({ id, dryRun: dryRunInput }) => {
+      if (dryRun || dryRunInput) {
+        return {
+          success: true,
+          id: createDryRunId(),
+          dryRun: true,
+          payload: { id },
+        };
+      }
+
+      try {
+        const resend = getClient();
+        const { data, error } = await resend.templates.duplicate(id);
+
+        if (error) {
+          return {
+            success: false,
+            id: "",
+            ...toToolError(error),
+          };
+        }
+
+        return await loadSavedTemplate(resend, data?.id ?? "");
+      } catch (error) {
+        logger.error("Error duplicating template", { error });
+        return {
+          success: false,
+          id: "",
+          ...toToolError(error, "Failed to duplicate template"),
+        };
+      }
+    },
+  });
+
+export const createRemoveTemplateTool = ({
+  getClient,
+  dryRun,
+  logger,
+}: ToolContext) =>
+  defineTool({
+    description:
+      "Permanently remove an email template by its ID or alias. " +
+      "Use only when the user explicitly wants to delete a template. " +
+      "WARNING: This action is irreversible and sends that reference the template will fail.",
+    inputSchema: z.object({
+      id: z.string().describe("The ID or alias of the template to remove"),
+      dryRun: DryRunInputSchema,
+    }),
+    inputExamples: [{ input: { id: "34a080c9-b17d-4187-ad80-5af20266e535" } }],
+    outputSchema: RemoveTemplateResultSchema,
+    strict: true,
+    execute: async ({ id, dryRun: dryRunInput }) => {
+      if (dryRun || dryRunInput) {
+        return {
+          success: true,
+          deleted: false,
+          id,
+          dryRun: true,
+          payload: { id },
+        };
+      }
+
+      try {
+        const resend = getClient();
+        const { data, error } = await resend.templates.remove(id);
+
+        if (error) {
+          return {
+            success: false,
+            deleted: false,
+            id,
+            ...toToolError(error),
+          };
+        }
+
+        const result = data as unknown as Record<string, unknown>;
+        return {
+          success: true,
+          deleted: Boolean(result.deleted ?? true),
+          id: String(result.id ?? id),
+        };
+      } catch (error) {
+        logger.error("Error removing template", { error });
+        return {
+          success: false,
+          deleted: false,
+          id,
+          ...toToolError(error, "Failed to remove template"),
+        };
+      }
+    },
+  });
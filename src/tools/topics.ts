@@ -0,0 +1,423 @@
+import { z } from "zod";
+import type { ToolContext } from "../config.js";
+import { defineTool } from "../define-tool.js";
+import { toToolError } from "../errors.js";
+import {
+  DryRunInputSchema,
+  GetContactTopicsResultSchema,
+  GetTopicResultSchema,
+  ListTopicsResultSchema,
+  SaveTopicResultSchema,
+  UpdateContactTopicsResultSchema,
+} from "../schemas.js";
+import {
+  createDryRunId,
+  getStringField,
+  toContactLookup,
+  withoutUndefined,
+} from "../utils.js";
+
+const subscriptionSchema = z.enum(["opt_in", "opt_out"]);
+
+const optionalString = (value: unknown) =>
+  typeof value === "string" && value ? value : undefined;
+
+const toSubscription = (value: unknown): "opt_in" | "opt_out" | undefined =>
+  value === "opt_in" || value === "opt_out" ? value : undefined;
+
+export const createListTopicsTool = ({ getClient, logger }: ToolContext) =>
+  defineTool({
+    description:
+      "List subscription topics in your Resend account (e.g. 'Product updates', 'Weekly digest'). " +
+      "Use this tool to find a topic's ID by its name before sending to a topic or changing a contact's subscriptions.",
+    inputSchema: z.object({}),
+    outputSchema: ListTopicsResultSchema,
+    strict: true,
+    execute: async () => {
+      try {
+        const resend = getClient();
+        const { data, error } = await resend.topics.list();
+
+        if (error) {
+          return {
+            topics: [],
+            count: 0,
+            ...toToolError(error),
+          };
+        }
+
+        const result = data as unknown as Record<string, unknown>;
+        const rawTopics =
+          (result.data as Record<string, unknown>[] | undefined) ?? [];
+
+        const topics = rawTopics.map((topic) => ({
+          id: String(topic.id ?? ""),
+          name: String(topic.name ?? ""),
+          description: optionalString(topic.description),
+          defaultSubscription: toSubscription(
+            topic.default_subscription ?? topic.defaultSubscription
+          ),
+          createdAt: getStringField(topic, "created_at", "createdAt"),
+        }));
+
+        return {
+          topics,
+          count: topics.length,
+        };
+      } catch (error) {
+        logger.error("Error listing topics", { error });
+        return {
+          topics: [],
+          count: 0,
+          ...toToolError(error, "Failed to list topics"),
+        };
+      }
+    },
+  });
+
+export const createGetTopicTool = ({ getClient, logger }: ToolContext) =>
+  defineTool({
+    description:
+      "Retrieve a subscription topic by its ID, including its description and default subscription.",
+    inputSchema: z.object({
+      id: z.string().describe("The ID of the topic to retrieve"),
+    }),
+    inputExamples: [{ input: { id: "b6d24b8e-af0b-4c3c-be0c-359bbd97381e" } }],
+    outputSchema: GetTopicResultSchema,
+    strict: true,
+    execute: async ({ id }) => {
+      try {
+        const resend = getClient();
+        const { data, error } = await resend.topics.get(id);
+
+        if (error) {
+          return {
+            success: false,
+            id,
+            ...toToolError(error),
+          };
+        }
+
+        const result = data as unknown as Record<string, unknown>;
+        return {
+          success: true,
+          id: String(result.id ?? id),
+          name: optionalString(result.name),
+          description: optionalString(result.description),
+          defaultSubscription: toSubscription(
+            result.default_subscription ?? result.defaultSubscription
+          ),
+          createdAt: getStringField(result, "created_at", "createdAt"),
+        };
+      } catch (error) {
+        logger.error("Error getting topic", { error });
+        return {
+          success: false,
+          id,
+          ...toToolError(error, "Failed to get topic"),
+        };
+      }
+    },
+  });
+
+export const createCreateTopicTool = ({
+  getClient,
+  dryRun,
+  logger,
+}: ToolContext) =>
+  defineTool({
+    description:
+      "Create a subscription topic that contacts can opt in to or out of. " +
+      "Use opt_in as the default subscription for topics everyone should receive, and opt_out for topics contacts must explicitly join.",
+    inputSchema: z.object({
+      name: z.string().describe("Name of the topic shown to contacts"),
+      description: z
+        .string()
+        .optional()
+        .describe("Description of the topic shown to contacts"),
+      defaultSubscription: subscriptionSchema.describe(
+        "Subscription status for contacts that have not chosen one"
+      ),
+      dryRun: DryRunInputSchema,
+    }),
+    inputExamples: [
+      {
+        input: {
+          name: "Product updates",
+          description: "New features and improvements",
+          defaultSubscription: "opt_in",
+        },
+      },
+    ],
+    outputSchema: SaveTopicResultSchema,
+    strict: true,
+    execute: async ({
+      name,
+      description,
+      defaultSubscription,
+      dryRun: dryRunInput,
+    }) => {
+      const params = withoutUndefined({
+        name,
+        description,
+        defaultSubscription,
+      });
+      if (dryRun || dryRunInput) {
+        return {
+          success: true,
+          id: createDryRunId(),
+          dryRun: true,
+          payload: params,
+        };
+      }
+
+      try {
+        const resend = getClient();
+        const { data, error } = await resend.topics.create(params);
+
+        if (error) {
+          return {
+            success: false,
+            id: "",
+            ...toToolError(error),
+          };
+        }
+
+        return {
+          success: true,
+          id: data?.id ?? "",
+        };
+      } catch (error) {
+        logger.error("Error creating topic", { error });
+        return {
+          success: false,
+          id: "",
+          ...toToolError(error, "Failed to create topic"),
+        };
+      }
+    },
+  });
+
+export const createUpdateTopicTool = ({
+  getClient,
+  dryRun,
+  logger,
+}: ToolContext) =>
+  defineTool({
+    description:
+      "Update the name or description of a subscription topic. Only the provided fields are changed.",
+    inputSchema: z.object({
+      id: z.string().describe("The ID of the topic to update"),
+      name: z.string().optional().describe("New name of the topic"),
+      description: z
+        .string()
+        .optional()
+        .describe("New description of the topic"),
+      dryRun: DryRunInputSchema,
+    }),
+    inputExamples: [
+      {
+        input: {
+          id: "b6d24b8e-af0b-4c3c-be0c-359bbd97381e",
+          description: "Monthly product news",
+        },
+      },
+    ],
+    outputSchema: SaveTopicResultSchema,
+    strict: true,
+    execute: async ({ id, name, description, dryRun: dryRunInput }) => {
+      const params = withoutUndefined({ id, name, description });
+      if (dryRun || dryRunInput) {
+        return { success: true, id, dryRun: true, payload: params };
+      }
+
+      try {
+        const resend = getClient();
+        const { data, error } = await resend.topics.update(params);
+
+        if (error) {
+          return {
+            success: false,
+            id,
+            ...toToolError(error),
+          };
+        }
+
+        return {
+          success: true,
+          id: data?.id ?? id,
+        };
+      } catch (error) {
+        logger.error("Error updating topic", { error });
+        return {
+          success: false,
+          id,
+          ...toToolError(error, "Failed to update topic"),
+        };
+      }
+    },
+  });
+
+export const createGetContactTopicsTool = ({
+  getClient,
+  logger,
+}: ToolContext) =>
+  defineTool({
+    description:
+      "List the topic subscriptions of a contact. " +
+      "Use this tool to check what a contact currently receives before changing their preferences.",
+    inputSchema: z.object({
+      contact: z.string().describe("The ID or email address of the contact"),
+      limit: z
+        .number()
+        .min(1)
+        .max(100)
+        .optional()
+        .describe("Number of topics to retrieve. Default 20, max 100."),
+      after: z
+        .string()
+        .optional()
+        .describe(
+          "Topic ID after which to retrieve more topics (for forward pagination)."
+        ),
+    }),
+    inputExamples: [{ input: { contact: "jane@example.com" } }],
+    outputSchema: GetContactTopicsResultSchema,
+    strict: true,
+    execute: async ({ contact, limit, after }) => {
+      const lookup = toContactLookup(contact);
+      try {
+        const resend = getClient();
+        const { data, error } = await resend.contacts.topics.list(
+          withoutUndefined({
+            id: lookup.contactId,
+            email: lookup.email,
+            limit,
+            after,
+          }) as Parameters<typeof resend.contacts.topics.list>[0]
+        );
+
+        if (error) {
+          return {
+            success: false,
+            contact,
+            topics: [],
+            ...toToolError(error),
+          };
+        }
+
+        const result = data as unknown as Record<string, unknown>;
+        const rawTopics =
+          (result.data as Record<string, unknown>[] | undefined) ?? [];
+
+        return {
+          success: true,
+          contact,
+          topics: rawTopics.map((topic) => ({
+            id: String(topic.id ?? ""),
+            name: optionalString(topic.name),
+            description: optionalString(topic.description),
+            subscription: toSubscription(topic.subscription) ?? "opt_out",
+          })),
+          hasMore: Boolean(result.has_more ?? false),
+        };
+      } catch (error) {
+        logger.error("Error getting contact topics", { error });
+        return {
+          success: false,
+          contact,
+          topics: [],
+          ...toToolError(error, "Failed to get contact topics"),
+        };
+      }
+    },
+  });
+
+export const createUpdateContactTopicsTool = ({
+  getClient,
+  dryRun,
+  logger,
+}: ToolContext) =>
+  defineTool({
+    description:
+      "Change a contact's topic subscriptions. Topics that are not listed keep their current status. " +
+      "Use this tool for requests like 'stop sending me product updates' (opt_out) or 'sign me up for the digest' (opt_in). " +
+      "Look up topic IDs with listTopics first.",
+    inputSchema: z.object({
+      contact: z.string().describe("The ID or email address of the contact"),
+      topics: z
+        .array(
+          z.object({
+            id: z.string().describe("The topic ID"),
+            subscription: subscriptionSchema.describe(
+              "The new subscription status for this topic"
+            ),
+          })
+        )
+        .min(1)
+        .describe("Subscriptions to change"),
+      dryRun: DryRunInputSchema,
+    }),
+    inputExamples: [
+      {
+        input: {
+          contact: "jane@example.com",
+          topics: [
+            {
+              id: "b6d24b8e-af0b-4c3c-be0c-359bbd97381e",
+              subscription: "opt_out",
+            },
+          ],
+        },
+      },
+    ],
+    outputSchema: UpdateContactTopicsResultSchema,
+    strict: true,
+    execute: async ({ contact, topics, dryRun: dryRunInput }) => {
+      const lookup = toContactLookup(contact);
+      const params = withoutUndefined({
+        id: lookup.contactId,
+        email: lookup.email,
+        topics,
+      });
+      if (dryRun || dryRunInput) {
+        return {
+          success: true,
+          contact,
+          topics,
+          dryRun: true,
+          payload: params,
+        };
+      }
+
+      try {
+        const resend = getClient();
+        const { error } = await resend.contacts.topics.update(
+          params as Parameters<typeof resend.contacts.topics.update>[0]
+        );
+
+        if (error) {
+          return {
+            success: false,
+            contact,
+            topics: [],
+            ...toToolError(error),
+          };
+        }
+
+        return {
+          success: true,
+          contact,
+          topics,
+        };
+      } catch (error) {
+        logger.error("Error updating contact topics", { error });
+        return {
+          success: false,
+          contact,
+          topics: [],
+          ...toToolError(error, "Failed to update contact topics"),
+        };
+      }
+    },
+  });
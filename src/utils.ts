@@ -0,0 +1,103 @@
+export const getStringField = (
+  obj: Record<string, unknown>,
+  snakeCase: string,
+  camelCase: string
+): string | undefined => {
+  if (obj[snakeCase]) {
+    return String(obj[snakeCase]);
+  }
+  if (obj[camelCase]) {
+    return String(obj[camelCase]);
+  }
+  return undefined;
+};
+
+export const toStringArray = (value: unknown): string[] => {
+  if (Array.isArray(value)) {
+    return value as string[];
+  }
+  if (typeof value === "string") {
+    return [value];
+  }
+  return [];
+};
+
+/** Resolves after `ms`, or rejects with the abort reason once `signal` aborts. */
+export const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+/** The emails in a send tool input: each email of a batch, or the input itself. */
+export const emailsInInput = (input: unknown): Record<string, unknown>[] => {
+  if (typeof input !== "object" || input === null) {
+    return [];
+  }
+  const fields = input as Record<string, unknown>;
+  if (Array.isArray(fields.emails)) {
+    return fields.emails as Record<string, unknown>[];
+  }
+  return "to" in fields ? [fields] : [];
+};
+
+export const recipientsOf = (email: Record<string, unknown>): string[] => [
+  ...toStringArray(email.to),
+  ...toStringArray(email.cc),
+  ...toStringArray(email.bcc),
+];
+
+export const withoutUndefined = <T extends object>(obj: T): T =>
+  Object.fromEntries(
+    Object.entries(obj).filter(([, value]) => value !== undefined)
+  ) as T;
+
+const NAMED_ADDRESS_PATTERN = /^\s*"?([^"<]*?)"?\s*<([^>]+)>\s*$/;
+
+export interface ParsedAddress {
+  name?: string;
+  address: string;
+  domain: string;
+}
+
+export const parseEmailAddress = (value: string): ParsedAddress => {
+  const match = NAMED_ADDRESS_PATTERN.exec(value);
+  const name = match?.[1]?.trim() || undefined;
+  const address = (match?.[2] ?? value).trim().toLowerCase();
+  const domain = address.slice(address.lastIndexOf("@") + 1);
+  return { name, address, domain };
+};
+
+export const createDryRunId = () => `dry_run_${crypto.randomUUID()}`;
+
+export const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(
+        ([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`
+      );
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+};
+
+export const toContactLookup = (
+  contact: string
+): { email?: string; contactId?: string } =>
+  contact.includes("@") ? { email: contact } : { contactId: contact };
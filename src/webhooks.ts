@@ -0,0 +1,349 @@
+import { z } from "zod";
+import { type Logger, resolveLogger } from "./logger.js";
+
+const DEFAULT_TOLERANCE_SECONDS = 5 * 60;
+const DEFAULT_MAX_EMAILS = 10_000;
+const SECRET_PREFIX = "whsec_";
+
+const EmailFieldsSchema = z.object({
+  email_id: z.string(),
+  created_at: z.string(),
+  from: z.string(),
+  to: z.array(z.string()),
+  subject: z.string(),
+  broadcast_id: z.string().optional(),
+  template_id: z.string().optional(),
+  tags: z.record(z.string(), z.string()).optional(),
+});
+
+const BounceSchema = z.object({
+  type: z.string(),
+  subType: z.string(),
+  message: z.string(),
+});
+
+const ClickSchema = z.object({
+  link: z.string(),
+  timestamp: z.string(),
+  ipAddress: z.string(),
+  userAgent: z.string(),
+});
+
+const FailedSchema = z.object({
+  reason: z.string(),
+});
+
+const SuppressedSchema = z.object({
+  message: z.string(),
+  type: z.string(),
+});
+
+const ReceivedFieldsSchema = z.object({
+  email_id: z.string(),
+  created_at: z.string(),
+  from: z.string(),
+  to: z.array(z.string()),
+  cc: z.array(z.string()).optional(),
+  bcc: z.array(z.string()).optional(),
+  subject: z.string(),
+  message_id: z.string().optional(),
+  attachments: z
+    .array(
+      z.object({
+        id: z.string(),
+        filename: z.string(),
+        content_type: z.string(),
+      })
+    )
+    .optional(),
+});
+
+const emailEvent = <
+  Type extends string,
+  Data extends z.ZodObject<z.ZodRawShape>,
+>(
+  type: Type,
+  data: Data
+) => z.object({ type: z.literal(type), created_at: z.string(), data });
+
+/** The email events Resend sends to webhooks, as parsed from their JSON body. */
+export const EmailEventSchema = z.discriminatedUnion("type", [
+  emailEvent("email.scheduled", EmailFieldsSchema),
+  emailEvent("email.sent", EmailFieldsSchema),
+  emailEvent("email.delivered", EmailFieldsSchema),
+  emailEvent("email.delivery_delayed", EmailFieldsSchema),
+  emailEvent(
+    "email.bounced",
+    EmailFieldsSchema.extend({ bounce: BounceSchema })
+  ),
+  emailEvent("email.complained", EmailFieldsSchema),
+  emailEvent("email.opened", EmailFieldsSchema),
+  emailEvent("email.clicked", EmailFieldsSchema.extend({ click: ClickSchema })),
+  emailEvent(
+    "email.failed",
+    EmailFieldsSchema.extend({ failed: FailedSchema })
+  ),
+  emailEvent(
+    "email.suppressed",
+    EmailFieldsSchema.extend({ suppressed: SuppressedSchema })
+  ),
+  emailEvent("email.received", ReceivedFieldsSchema),
+]);
+
+export type EmailEvent = z.infer<typeof EmailEventSchema>;
+export type EmailEventType = EmailEvent["type"];
+
+const EMAIL_EVENT_TYPES = new Set<string>(
+  EmailEventSchema.options.map((option) => option.shape.type.value)
+);
+
+export interface EmailEventRecord {
+  /** The webhook message ID. Resend reuses it when redelivering the event. */
+  id: string;
+  emailId: string;
+  type: EmailEventType;
+  /** ISO timestamp of the event. */
+  createdAt: string;
+  event: EmailEvent;
+}
+
+export interface EmailEventStore {
+  /** Stores a record. Records with an ID that was already saved are ignored. */
+  save(record: EmailEventRecord): void | Promise<void>;
+  /** The records of an email, oldest first. */
+  list(emailId: string): EmailEventRecord[] | Promise<EmailEventRecord[]>;
+}
+
+export interface MemoryEventStoreOptions {
+  /** Emails to keep events for before the oldest are dropped. Defaults to 10,000. */
+  maxEmails?: number;
+}
+
+export const createMemoryEventStore = ({
+  maxEmails = DEFAULT_MAX_EMAILS,
+}: MemoryEventStoreOptions = {}): EmailEventStore => {
+  const records = new Map<string, EmailEventRecord[]>();
+
+  return {
+    save: (record) => {
+      const existing = records.get(record.emailId) ?? [];
+      if (existing.some(({ id }) => id === record.id)) {
+        return;
+      }
+      records.delete(record.emailId);
+      records.set(record.emailId, [...existing, record]);
+      if (records.size > maxEmails) {
+        const [oldest] = records.keys();
+        records.delete(oldest as string);
+      }
+    },
+    list: (emailId) =>
+      [...(records.get(emailId) ?? [])].sort((a, b) =>
+        a.createdAt.localeCompare(b.createdAt)
+      ),
+  };
+};
+
+export type WebhookHeaders =
+  | Headers
+  | Record<string, string | string[] | null | undefined>;
+
+export interface VerifyWebhookOptions {
+  /** The raw request body. Parsing and re-serializing it breaks the signature. */
+  payload: string;
+  headers: WebhookHeaders;
+  /** Signing secret of the webhook, starting with `whsec_`. */
+  secret: string;
+  /** How far the signature timestamp may be from now. Defaults to 5 minutes. */
+  toleranceSeconds?: number;
+}
+
+export type WebhookVerification =
+  | { valid: true; id: string; payload: unknown }
+  | { valid: false; reason: string };
+
+const readHeader = (headers: WebhookHeaders, name: string) => {
+  if (headers instanceof Headers) {
+    return headers.get(name) ?? undefined;
+  }
+  const value = headers[name];
+  return (Array.isArray(value) ? value[0] : value) ?? undefined;
+};
+
+const decodeBase64 = (value: string) =>
+  Uint8Array.from(atob(value), (character) => character.charCodeAt(0));
+
+const signedWith = async (
+  secret: string,
+  content: string,
+  signatures: string
+) => {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    decodeBase64(
+      secret.startsWith(SECRET_PREFIX)
+        ? secret.slice(SECRET_PREFIX.length)
+        : secret
+    ),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["verify"]
+  );
+  const data = new TextEncoder().encode(content);
+  for (const entry of signatures.split(" ")) {
+    const [version, signature] = entry.split(",");
+    if (
+      version === "v1" &&
+      signature &&
+      (await crypto.subtle.verify("HMAC", key, decodeBase64(signature), data))
+    ) {
+      return true;
+    }
+  }
+  return false;
+};
+
+/**
+ * Checks the Svix signature Resend adds to webhook requests, then parses the
+ * body. Accepts both the `svix-*` and the standard `webhook-*` header names.
+ */
+export const verifyWebhook = async ({
+  payload,
+  headers,
+  secret,
+  toleranceSeconds = DEFAULT_TOLERANCE_SECONDS,
+}: VerifyWebhookOptions): Promise<WebhookVerification> => {
+  const header = (name: string) =>
+    readHeader(headers, `svix-${name}`) ??
+    readHeader(headers, `webhook-${name}`);
+  const id = header("id");
+  const timestamp = header("timestamp");
+  const signatures = header("signature");
+  if (!(id && timestamp && signatures)) {
+    return { valid: false, reason: "Missing webhook signature headers" };
+  }
+
+  const sentAt = Number(timestamp);
+  if (
+    !Number.isFinite(sentAt) ||
+    Math.abs(Date.now() / 1000 - sentAt) > toleranceSeconds
+  ) {
+    return { valid: false, reason: "Webhook timestamp is too old or too new" };
+  }
+
+  try {
+    if (
+      !(await signedWith(secret, `${id}.${timestamp}.${payload}`, signatures))
+    ) {
+      return { valid: false, reason: "Webhook signature does not match" };
+    }
+  } catch {
+    return { valid: false, reason: "Webhook secret or signature is malformed" };
+  }
+
+  try {
+    return { valid: true, id, payload: JSON.parse(payload) };
+  } catch {
+    return { valid: false, reason: "Webhook payload is not valid JSON" };
+  }
+};
+
+export interface WebhookHandlerOptions {
+  /** Where events are saved. Pass the same store as the `events` option of `createResendTools`. */
+  store: EmailEventStore;
+  /** Signing secret of the webhook. Defaults to the `RESEND_WEBHOOK_SECRET` environment variable. */
+  secret?: string;
+  /** Runs after an event is saved. Errors are logged and the event is still acknowledged. */
+  onEvent?: (
+    event: EmailEvent,
+    record: EmailEventRecord
+  ) => void | Promise<void>;
+  /** How far the signature timestamp may be from now. Defaults to 5 minutes. */
+  toleranceSeconds?: number;
+  /** Receives rejected requests and failed saves. Defaults to `console` for errors only. */
+  logger?: Logger | false;
+}
+
+const json = (status: number, body: unknown) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "content-type": "application/json" },
+  });
+
+const readSecret = () =>
+  typeof process === "undefined"
+    ? undefined
+    : process.env.RESEND_WEBHOOK_SECRET;
+
+/**
+ * Creates a `(Request) => Response` handler for Resend webhooks that works with
+ * any framework built on the Fetch API. Email events are verified, parsed, and
+ * saved; other events are acknowledged and ignored. Failed saves return 500 so
+ * Resend delivers the event again.
+ */
+export const createWebhookHandler = ({
+  store,
+  secret = readSecret(),
+  onEvent,
+  toleranceSeconds,
+  logger: loggerOption,
+}: WebhookHandlerOptions) => {
+  if (!secret) {
+    throw new Error(
+      "RESEND_WEBHOOK_SECRET environment variable is required when no secret is provided"
+    );
+  }
+  const logger = resolveLogger(loggerOption);
+
+  return async (request: Request): Promise<Response> => {
+    if (request.method !== "POST") {
+      return json(405, { error: "Method not allowed" });
+    }
+
+    const verification = await verifyWebhook({
+      payload: await request.text(),
+      headers: request.headers,
+      secret,
+      toleranceSeconds,
+    });
+    if (!verification.valid) {
+      logger.warn("Rejected Resend webhook", { reason: verification.reason });
+      return json(401, { error: verification.reason });
+    }
+
+    const { type } = (verification.payload ?? {}) as { type?: unknown };
+    if (typeof type !== "string" || !EMAIL_EVENT_TYPES.has(type)) {
+      return json(200, { received: true });
+    }
+    const parsed = EmailEventSchema.safeParse(verification.payload);
+    if (!parsed.success) {
+      logger.warn("Invalid Resend webhook event", {
+        type,
+        error: z.prettifyError(parsed.error),
+      });
+      return json(400, { error: `Invalid ${type} event` });
+    }
+
+    const event = parsed.data;
+    const record: EmailEventRecord = {
+      id: verification.id,
+      emailId: event.data.email_id,
+      type: event.type,
+      createdAt: event.created_at,
+      event,
+    };
+    try {
+      await store.save(record);
+    } catch (error) {
+      logger.error("Error saving Resend webhook event", { type, error });
+      return json(500, { error: "Failed to save event" });
+    }
+
+    try {
+      await onEvent?.(event, record);
+    } catch (error) {
+      logger.error("Error in onEvent handler", { type, error });
+    }
+    return json(200, { received: true });
+  };
+};
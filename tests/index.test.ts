@@ -1,33 +1,109 @@
+import { type Tracer, trace } from "@opentelemetry/api";
 import type { ToolExecutionOptions } from "ai";
-import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { Resend } from "resend";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import {
+  addContactToSegment,
+  cancelScheduledEmail,
+  createBroadcast,
   createContact,
+  createDomain,
+  createResendTools,
+  createSegment,
+  createTemplate,
+  createTopic,
+  duplicateTemplate,
+  getBroadcast,
+  getContact,
+  getContactTopics,
+  getDomain,
   getEmail,
+  getSegment,
   getTemplate,
+  getTopic,
+  listBroadcasts,
   listContacts,
+  listDomains,
   listEmails,
+  listSegments,
   listTemplates,
+  listTopics,
+  publishTemplate,
+  removeBroadcast,
   removeContact,
+  removeContactFromSegment,
+  removeDomain,
+  removeSegment,
+  removeTemplate,
   sendBatchEmails,
+  sendBroadcast,
   sendEmail,
+  updateBroadcast,
+  updateContact,
+  updateContactTopics,
+  updateScheduledEmail,
+  updateTemplate,
+  updateTopic,
+  verifyDomain,
+  waitForEmailEvent,
 } from "../src/index.js";
 
+const mockResendConstructor = vi.fn();
 const mockEmailsSend = vi.fn();
 const mockEmailsGet = vi.fn();
 const mockEmailsList = vi.fn();
+const mockEmailsUpdate = vi.fn();
+const mockEmailsCancel = vi.fn();
 const mockBatchSend = vi.fn();
 const mockContactsCreate = vi.fn();
 const mockContactsList = vi.fn();
 const mockContactsRemove = vi.fn();
+const mockContactsGet = vi.fn();
+const mockContactsUpdate = vi.fn();
+const mockContactSegmentsList = vi.fn();
 const mockTemplatesList = vi.fn();
 const mockTemplatesGet = vi.fn();
+const mockTemplatesCreate = vi.fn();
+const mockTemplatesUpdate = vi.fn();
+const mockTemplatesPublish = vi.fn();
+const mockTemplatesDuplicate = vi.fn();
+const mockTemplatesRemove = vi.fn();
+const mockDomainsList = vi.fn();
+const mockDomainsGet = vi.fn();
+const mockDomainsCreate = vi.fn();
+const mockDomainsVerify = vi.fn();
+const mockDomainsRemove = vi.fn();
+const mockBroadcastsList = vi.fn();
+const mockBroadcastsGet = vi.fn();
+const mockBroadcastsCreate = vi.fn();
+const mockBroadcastsUpdate = vi.fn();
+const mockBroadcastsSend = vi.fn();
+const mockBroadcastsRemove = vi.fn();
+const mockSegmentsList = vi.fn();
+const mockSegmentsGet = vi.fn();
+const mockSegmentsCreate = vi.fn();
+const mockSegmentsRemove = vi.fn();
+const mockContactSegmentsAdd = vi.fn();
+const mockContactSegmentsRemove = vi.fn();
+const mockTopicsList = vi.fn();
+const mockTopicsGet = vi.fn();
+const mockTopicsCreate = vi.fn();
+const mockTopicsUpdate = vi.fn();
+const mockContactTopicsList = vi.fn();
+const mockContactTopicsUpdate = vi.fn();
 
 vi.mock("resend", () => ({
   Resend: class MockResend {
+    constructor(apiKey: string) {
+      mockResendConstructor(apiKey);
+    }
+
     emails = {
       send: mockEmailsSend,
       get: mockEmailsGet,
       list: mockEmailsList,
+      update: mockEmailsUpdate,
+      cancel: mockEmailsCancel,
     };
     batch = {
       send: mockBatchSend,
@@ -36,14 +112,65 @@ vi.mock("resend", () => ({
       create: mockContactsCreate,
       list: mockContactsList,
       remove: mockContactsRemove,
+      get: mockContactsGet,
+      update: mockContactsUpdate,
+      segments: {
+        list: mockContactSegmentsList,
+        add: mockContactSegmentsAdd,
+        remove: mockContactSegmentsRemove,
+      },
+      topics: {
+        list: mockContactTopicsList,
+        update: mockContactTopicsUpdate,
+      },
     };
     templates = {
       list: mockTemplatesList,
       get: mockTemplatesGet,
+      create: mockTemplatesCreate,
+      update: mockTemplatesUpdate,
+      publish: mockTemplatesPublish,
+      duplicate: mockTemplatesDuplicate,
+      remove: mockTemplatesRemove,
+    };
+    domains = {
+      list: mockDomainsList,
+      get: mockDomainsGet,
+      create: mockDomainsCreate,
+      verify: mockDomainsVerify,
+      remove: mockDomainsRemove,
+    };
+    broadcasts = {
+      list: mockBroadcastsList,
+      get: mockBroadcastsGet,
+      create: mockBroadcastsCreate,
+      update: mockBroadcastsUpdate,
+      send: mockBroadcastsSend,
+      remove: mockBroadcastsRemove,
+    };
+    segments = {
+      list: mockSegmentsList,
+      get: mockSegmentsGet,
+      create: mockSegmentsCreate,
+      remove: mockSegmentsRemove,
+    };
+    topics = {
+      list: mockTopicsList,
+      get: mockTopicsGet,
+      create: mockTopicsCreate,
+      update: mockTopicsUpdate,
     };
   },
 }));
 
+const ACME_NAME_PATTERN = /^Acme/;
+const READ_ONLY_TOOL_PATTERN = /^(list|get|waitFor)/;
+const DRY_RUN_ID_PATTERN = /^dry_run_/;
+const SHA256_PATTERN = /^[0-9a-f]{64}$/;
+const GLOBAL_CUSTOMER_PATTERN = /@customer\.com$/g;
+const GLOBAL_ACME_PATTERN = /Acme/g;
+const STAGING_PATTERN = /^staging\+\d+@example\.com$/;
+
 const toolOptions: ToolExecutionOptions = {
   toolCallId: "test",
   messages: [],
@@ -104,6 +231,52 @@ describe("sendEmail", () => {
     });
   });
 
+  it("reports the scheduled time as an ISO timestamp", async () => {
+    mockEmailsSend.mockResolvedValue({
+      data: { id: "email-123" },
+      error: null,
+    });
+
+    const result = await execute(sendEmail, {
+      from: "hello@example.com",
+      to: ["user@example.com"],
+      subject: "Reminder",
+      text: "Don't forget!",
+      scheduledAt: "2024-08-05T11:52:01+02:00",
+    });
+
+    expect(result).toMatchObject({
+      success: true,
+      scheduledAt: "2024-08-05T09:52:01.000Z",
+    });
+    expect(mockEmailsGet).not.toHaveBeenCalled();
+  });
+
+  it("resolves natural language schedules through Resend", async () => {
+    mockEmailsSend.mockResolvedValue({
+      data: { id: "email-123" },
+      error: null,
+    });
+    mockEmailsGet.mockResolvedValue({
+      data: { id: "email-123", scheduled_at: "2024-08-05T12:00:00.000Z" },
+      error: null,
+    });
+
+    const result = await execute(sendEmail, {
+      from: "hello@example.com",
+      to: ["user@example.com"],
+      subject: "Reminder",
+      text: "Don't forget!",
+      scheduledAt: "in 1 hour",
+    });
+
+    expect(result).toMatchObject({
+      success: true,
+      scheduledAt: "2024-08-05T12:00:00.000Z",
+    });
+    expect(mockEmailsGet).toHaveBeenCalledWith("email-123");
+  });
+
   it("handles exceptions gracefully", async () => {
     mockEmailsSend.mockRejectedValue(new Error("Network error"));
 
@@ -181,6 +354,93 @@ describe("sendBatchEmails", () => {
   });
 });
 
+describe("updateScheduledEmail", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv("RESEND_API_KEY", "test-api-key");
+  });
+
+  it("reschedules the email", async () => {
+    mockEmailsUpdate.mockResolvedValue({
+      data: { object: "email", id: "email-123" },
+      error: null,
+    });
+
+    const result = await execute(updateScheduledEmail, {
+      id: "email-123",
+      scheduledAt: "2024-08-12T09:00:00.000Z",
+    });
+
+    expect(result).toEqual({
+      success: true,
+      id: "email-123",
+      scheduledAt: "2024-08-12T09:00:00.000Z",
+    });
+    expect(mockEmailsUpdate).toHaveBeenCalledWith({
+      id: "email-123",
+      scheduledAt: "2024-08-12T09:00:00.000Z",
+    });
+  });
+
+  it("reads dates that are not ISO 8601 back from Resend", async () => {
+    mockEmailsUpdate.mockResolvedValue({
+      data: { object: "email", id: "email-123" },
+      error: null,
+    });
+    mockEmailsGet.mockResolvedValue({
+      data: { id: "email-123", scheduled_at: "2026-03-05T09:00:00.000Z" },
+      error: null,
+    });
+
+    const result = await execute(updateScheduledEmail, {
+      id: "email-123",
+      scheduledAt: "March 5",
+    });
+
+    expect(result).toMatchObject({
+      success: true,
+      scheduledAt: "2026-03-05T09:00:00.000Z",
+    });
+    expect(mockEmailsGet).toHaveBeenCalledWith("email-123");
+  });
+
+  it("handles update errors gracefully", async () => {
+    mockEmailsUpdate.mockResolvedValue({
+      data: null,
+      error: { message: "Email has already been sent" },
+    });
+
+    const result = await execute(updateScheduledEmail, {
+      id: "email-123",
+      scheduledAt: "in 2 days",
+    });
+
+    expect(result).toMatchObject({
+      success: false,
+      error: "Email has already been sent",
+    });
+  });
+});
+
+describe("cancelScheduledEmail", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv("RESEND_API_KEY", "test-api-key");
+  });
+
+  it("cancels the email", async () => {
+    mockEmailsCancel.mockResolvedValue({
+      data: { object: "email", id: "email-123" },
+      error: null,
+    });
+
+    const result = await execute(cancelScheduledEmail, { id: "email-123" });
+
+    expect(result).toEqual({ success: true, id: "email-123", cancelled: true });
+    expect(mockEmailsCancel).toHaveBeenCalledWith("email-123");
+  });
+});
+
 describe("getEmail", () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -230,6 +490,118 @@ describe("getEmail", () => {
   });
 });
 
+describe("waitForEmailEvent", () => {
+  const withLastEvent = (lastEvent: string) => ({
+    data: { id: "email-123", last_event: lastEvent },
+    error: null,
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv("RESEND_API_KEY", "test-api-key");
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("polls with backoff until a requested event is reached", async () => {
+    mockEmailsGet
+      .mockResolvedValueOnce(withLastEvent("sent"))
+      .mockResolvedValueOnce(withLastEvent("sent"))
+      .mockResolvedValueOnce(withLastEvent("bounced"));
+
+    const pending = execute(waitForEmailEvent, { emailId: "email-123" });
+    await vi.advanceTimersByTimeAsync(3000);
+
+    expect(await pending).toEqual({
+      success: true,
+      id: "email-123",
+      lastEvent: "bounced",
+      elapsedMs: 3000,
+    });
+    expect(mockEmailsGet).toHaveBeenCalledTimes(3);
+  });
+
+  it("treats later events as reaching earlier ones", async () => {
+    mockEmailsGet.mockResolvedValue(withLastEvent("opened"));
+
+    const result = await execute(waitForEmailEvent, {
+      emailId: "email-123",
+      events: ["delivered"],
+    });
+
+    expect(result).toMatchObject({ success: true, lastEvent: "opened" });
+  });
+
+  it("stops at a final event that was not requested", async () => {
+    mockEmailsGet
+      .mockResolvedValueOnce(withLastEvent("sent"))
+      .mockResolvedValueOnce(withLastEvent("bounced"));
+
+    const pending = execute(waitForEmailEvent, {
+      emailId: "email-123",
+      events: ["delivered"],
+      timeoutSeconds: 60,
+    });
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(await pending).toEqual({
+      success: false,
+      id: "email-123",
+      lastEvent: "bounced",
+      elapsedMs: 1000,
+      error: "The email ended with bounced and will not reach delivered.",
+      errorCode: "undeliverable",
+      retryable: false,
+    });
+    expect(mockEmailsGet).toHaveBeenCalledTimes(2);
+  });
+
+  it("returns the last event when the timeout expires", async () => {
+    mockEmailsGet.mockResolvedValue(withLastEvent("delivery_delayed"));
+
+    const pending = execute(waitForEmailEvent, {
+      emailId: "email-123",
+      events: ["delivered"],
+      timeoutSeconds: 5,
+    });
+    await vi.advanceTimersByTimeAsync(5000);
+
+    expect(await pending).toEqual({
+      success: false,
+      id: "email-123",
+      lastEvent: "delivery_delayed",
+      elapsedMs: 5000,
+      timedOut: true,
+      error:
+        "Timed out after 5s waiting for delivered. The last event was delivery_delayed.",
+      errorCode: "timeout",
+      retryable: true,
+    });
+    expect(mockEmailsGet).toHaveBeenCalledTimes(4);
+  });
+
+  it("stops polling when the generation is aborted", async () => {
+    mockEmailsGet.mockResolvedValue(withLastEvent("sent"));
+    const controller = new AbortController();
+
+    const pending = waitForEmailEvent.execute?.(
+      { emailId: "email-123" },
+      { ...toolOptions, abortSignal: controller.signal }
+    );
+    const rejection = expect(pending).rejects.toMatchObject({
+      name: "AbortError",
+    });
+    await vi.advanceTimersByTimeAsync(500);
+    controller.abort();
+
+    await rejection;
+    expect(mockEmailsGet).toHaveBeenCalledTimes(1);
+  });
+});
+
 describe("listEmails", () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -286,6 +658,118 @@ describe("listEmails", () => {
       error: "Unauthorized",
     });
   });
+
+  it("filters a page and returns the next cursor", async () => {
+    mockEmailsList.mockResolvedValue({
+      data: {
+        has_more: true,
+        data: [
+          {
+            id: "email-1",
+            to: ["jane@acme.com"],
+            subject: "Invoice #1",
+            last_event: "bounced",
+            created_at: "2024-01-01T00:00:00.000Z",
+          },
+          {
+            id: "email-2",
+            to: ["joe@example.com"],
+            subject: "Invoice #2",
+            last_event: "bounced",
+            created_at: "2024-01-02T00:00:00.000Z",
+          },
+          {
+            id: "email-3",
+            to: ["ann@acme.com"],
+            subject: "Welcome",
+            last_event: "delivered",
+            created_at: "2024-01-03T00:00:00.000Z",
+          },
+        ],
+      },
+      error: null,
+    });
+
+    const result = await execute(listEmails, {
+      limit: 3,
+      to: "@ACME.com",
+      subject: "invoice",
+      lastEvent: "bounced",
+    });
+
+    expect(mockEmailsList).toHaveBeenCalledWith({ limit: 3 });
+    expect(result).toMatchObject({
+      count: 1,
+      emails: [{ id: "email-1" }],
+      hasMore: true,
+      nextCursor: "email-3",
+    });
+  });
+
+  it("walks pages until enough emails match", async () => {
+    mockEmailsList
+      .mockResolvedValueOnce({
+        data: {
+          has_more: true,
+          data: [
+            { id: "email-1", last_event: "delivered" },
+            { id: "email-2", last_event: "bounced" },
+          ],
+        },
+        error: null,
+      })
+      .mockResolvedValueOnce({
+        data: {
+          has_more: true,
+          data: [
+            { id: "email-3", last_event: "bounced" },
+            { id: "email-4", last_event: "delivered" },
+          ],
+        },
+        error: null,
+      });
+
+    const result = await execute(listEmails, {
+      limit: 2,
+      lastEvent: "bounced",
+      autoPaginate: true,
+    });
+
+    expect(mockEmailsList).toHaveBeenCalledTimes(2);
+    expect(mockEmailsList).toHaveBeenLastCalledWith({
+      limit: 2,
+      after: "email-2",
+    });
+    expect(result).toMatchObject({
+      count: 2,
+      emails: [{ id: "email-2" }, { id: "email-3" }],
+      hasMore: true,
+      nextCursor: "email-4",
+    });
+  });
+
+  it("stops walking at maxPages", async () => {
+    mockEmailsList.mockImplementation(async ({ after }) => ({
+      data: {
+        has_more: true,
+        data: [{ id: after ? `${after}-next` : "email-1" }],
+      },
+      error: null,
+    }));
+
+    const result = await execute(listEmails, {
+      subject: "never matches",
+      autoPaginate: true,
+      maxPages: 3,
+    });
+
+    expect(mockEmailsList).toHaveBeenCalledTimes(3);
+    expect(result).toMatchObject({
+      count: 0,
+      hasMore: true,
+      nextCursor: "email-1-next-next",
+    });
+  });
 });
 
 describe("createContact", () => {
@@ -386,58 +870,229 @@ describe("listContacts", () => {
       error: "Unauthorized",
     });
   });
+
+  it("filters contacts and passes the segment to Resend", async () => {
+    mockContactsList.mockResolvedValue({
+      data: {
+        has_more: false,
+        data: [
+          {
+            id: "contact-1",
+            email: "jane@acme.com",
+            unsubscribed: true,
+            created_at: "2024-03-01T00:00:00.000Z",
+          },
+          {
+            id: "contact-2",
+            email: "joe@acme.com",
+            unsubscribed: true,
+            created_at: "2023-12-01T00:00:00.000Z",
+          },
+          {
+            id: "contact-3",
+            email: "ann@acme.com",
+            unsubscribed: false,
+            created_at: "2024-03-02T00:00:00.000Z",
+          },
+        ],
+      },
+      error: null,
+    });
+
+    const result = await execute(listContacts, {
+      segmentId: "segment-1",
+      after: "contact-0",
+      email: "acme.com",
+      unsubscribed: true,
+      createdAfter: "2024-01-01T00:00:00.000Z",
+    });
+
+    expect(mockContactsList).toHaveBeenCalledWith({
+      after: "contact-0",
+      segmentId: "segment-1",
+    });
+    expect(result).toMatchObject({
+      count: 1,
+      contacts: [{ id: "contact-1", createdAt: "2024-03-01T00:00:00.000Z" }],
+      hasMore: false,
+    });
+    expect((result as { nextCursor?: string }).nextCursor).toBeUndefined();
+  });
 });
 
-describe("removeContact", () => {
+describe("getContact", () => {
   beforeEach(() => {
     vi.clearAllMocks();
     vi.stubEnv("RESEND_API_KEY", "test-api-key");
   });
 
-  it("removes a contact successfully", async () => {
-    mockContactsRemove.mockResolvedValue({
-      data: { id: "contact-123", deleted: true },
+  it("returns the contact with properties, segments and topics", async () => {
+    mockContactsGet.mockResolvedValue({
+      data: {
+        object: "contact",
+        id: "contact-123",
+        email: "jane@example.com",
+        first_name: "Jane",
+        last_name: null,
+        unsubscribed: false,
+        created_at: "2024-01-01T00:00:00.000Z",
+        properties: {
+          plan: { type: "string", value: "pro" },
+          seats: { type: "number", value: 5 },
+        },
+      },
       error: null,
     });
-
-    const result = await execute(removeContact, {
-      id: "contact-123",
+    mockContactSegmentsList.mockResolvedValue({
+      data: {
+        object: "list",
+        has_more: false,
+        data: [{ id: "segment-1", name: "Beta testers" }],
+      },
+      error: null,
+    });
+    mockContactTopicsList.mockResolvedValue({
+      data: {
+        object: "list",
+        has_more: false,
+        data: [
+          {
+            id: "topic-1",
+            name: "Product updates",
+            description: null,
+            subscription: "opt_out",
+          },
+        ],
+      },
+      error: null,
     });
 
+    const result = await execute(getContact, { id: "jane@example.com" });
+
     expect(result).toMatchObject({
       success: true,
-      deleted: true,
       id: "contact-123",
+      firstName: "Jane",
+      lastName: undefined,
+      properties: { plan: "pro", seats: 5 },
+      segments: [{ id: "segment-1", name: "Beta testers" }],
+      topics: [{ id: "topic-1", subscription: "opt_out" }],
+    });
+    expect(mockContactsGet).toHaveBeenCalledWith("jane@example.com");
+    expect(mockContactSegmentsList).toHaveBeenCalledWith({
+      email: "jane@example.com",
     });
   });
 
-  it("handles remove errors gracefully", async () => {
-    mockContactsRemove.mockResolvedValue({
+  it("handles get errors gracefully", async () => {
+    mockContactsGet.mockResolvedValue({
       data: null,
       error: { message: "Contact not found" },
     });
 
-    const result = await execute(removeContact, {
-      id: "nonexistent",
-    });
+    const result = await execute(getContact, { id: "nonexistent" });
 
     expect(result).toMatchObject({
       success: false,
-      deleted: false,
+      id: "nonexistent",
       error: "Contact not found",
     });
+    expect(mockContactSegmentsList).not.toHaveBeenCalled();
   });
 });
 
-describe("listTemplates", () => {
+describe("updateContact", () => {
   beforeEach(() => {
     vi.clearAllMocks();
     vi.stubEnv("RESEND_API_KEY", "test-api-key");
   });
 
-  it("lists templates successfully", async () => {
-    mockTemplatesList.mockResolvedValue({
-      data: {
+  it("sends only the provided fields", async () => {
+    mockContactsUpdate.mockResolvedValue({
+      data: { object: "contact", id: "contact-123" },
+      error: null,
+    });
+
+    const result = await execute(updateContact, {
+      id: "jane@example.com",
+      lastName: null,
+      properties: { plan: "enterprise" },
+    });
+
+    expect(result).toEqual({ success: true, id: "contact-123" });
+    expect(mockContactsUpdate).toHaveBeenCalledWith({
+      id: "jane@example.com",
+      lastName: null,
+      properties: { plan: "enterprise" },
+    });
+  });
+
+  it("returns the payload in dry-run mode", async () => {
+    const result = await execute(updateContact, {
+      id: "contact-123",
+      unsubscribed: true,
+      dryRun: true,
+    });
+
+    expect(result).toMatchObject({
+      success: true,
+      dryRun: true,
+      payload: { id: "contact-123", unsubscribed: true },
+    });
+    expect(mockContactsUpdate).not.toHaveBeenCalled();
+  });
+});
+
+describe("removeContact", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv("RESEND_API_KEY", "test-api-key");
+  });
+
+  it("removes a contact successfully", async () => {
+    mockContactsRemove.mockResolvedValue({
+      data: { id: "contact-123", deleted: true },
+      error: null,
+    });
+
+    const result = await execute(removeContact, {
+      id: "contact-123",
+    });
+
+    expect(result).toMatchObject({
+      success: true,
+      deleted: true,
+      id: "contact-123",
+    });
+  });
+
+  it("handles remove errors gracefully", async () => {
+    mockContactsRemove.mockResolvedValue({
+      data: null,
+      error: { message: "Contact not found" },
+    });
+
+    const result = await execute(removeContact, {
+      id: "nonexistent",
+    });
+
+    expect(result).toMatchObject({
+      success: false,
+      deleted: false,
+      error: "Contact not found",
+    });
+  });
+});
+
+describe("listTemplates", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv("RESEND_API_KEY", "test-api-key");
+  });
+
+  it("lists templates successfully", async () => {
+    mockTemplatesList.mockResolvedValue({
+      data: {
         data: [
           {
             id: "template-1",
@@ -545,24 +1200,3107 @@ describe("getTemplate", () => {
   });
 });
 
-describe("tool configurations", () => {
-  it("sendEmail has correct configuration", () => {
-    expect(sendEmail.description).toContain("Send");
-    expect(sendEmail.inputSchema).toBeDefined();
+describe("createTemplate", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv("RESEND_API_KEY", "test-api-key");
   });
 
-  it("removeContact requires approval", () => {
-    expect(removeContact.needsApproval).toBe(true);
+  it("creates a template and returns its definition", async () => {
+    mockTemplatesCreate.mockResolvedValue({
+      data: { object: "template", id: "template-123" },
+      error: null,
+    });
+    mockTemplatesGet.mockResolvedValue({
+      data: {
+        id: "template-123",
+        name: "Welcome",
+        status: "draft",
+        variables: [
+          { key: "FIRST_NAME", type: "string", fallback_value: "there" },
+        ],
+      },
+      error: null,
+    });
+
+    const variables = [
+      { key: "FIRST_NAME", type: "string" as const, fallbackValue: "there" },
+    ];
+    const result = await execute(createTemplate, {
+      name: "Welcome",
+      html: "<p>Hi {{{FIRST_NAME}}}</p>",
+      variables,
+    });
+
+    expect(result).toMatchObject({
+      success: true,
+      id: "template-123",
+      status: "draft",
+      variables: [{ key: "FIRST_NAME", fallbackValue: "there" }],
+    });
+    expect(mockTemplatesCreate).toHaveBeenCalledWith({
+      name: "Welcome",
+      html: "<p>Hi {{{FIRST_NAME}}}</p>",
+      variables,
+    });
+  });
+
+  it("handles create errors gracefully", async () => {
+    mockTemplatesCreate.mockResolvedValue({
+      data: null,
+      error: { message: "Invalid HTML" },
+    });
+
+    const result = await execute(createTemplate, {
+      name: "Broken",
+      html: "<p",
+    });
+
+    expect(result).toMatchObject({ success: false, error: "Invalid HTML" });
+    expect(mockTemplatesGet).not.toHaveBeenCalled();
+  });
+});
+
+describe("updateTemplate", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv("RESEND_API_KEY", "test-api-key");
+  });
+
+  it("sends only the provided fields", async () => {
+    mockTemplatesUpdate.mockResolvedValue({
+      data: { object: "template", id: "template-123" },
+      error: null,
+    });
+    mockTemplatesGet.mockResolvedValue({
+      data: { id: "template-123", name: "Welcome", subject: "Hello!" },
+      error: null,
+    });
+
+    const result = await execute(updateTemplate, {
+      id: "welcome",
+      subject: "Hello!",
+    });
+
+    expect(result).toMatchObject({ success: true, subject: "Hello!" });
+    expect(mockTemplatesUpdate).toHaveBeenCalledWith("welcome", {
+      subject: "Hello!",
+    });
+  });
+});
+
+describe("publishTemplate", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv("RESEND_API_KEY", "test-api-key");
+  });
+
+  it("publishes the template", async () => {
+    mockTemplatesPublish.mockResolvedValue({
+      data: { object: "template", id: "template-123" },
+      error: null,
+    });
+    mockTemplatesGet.mockResolvedValue({
+      data: {
+        id: "template-123",
+        name: "Welcome",
+        status: "published",
+        published_at: "2024-01-02T00:00:00.000Z",
+      },
+      error: null,
+    });
+
+    const result = await execute(publishTemplate, { id: "template-123" });
+
+    expect(result).toMatchObject({
+      success: true,
+      status: "published",
+      publishedAt: "2024-01-02T00:00:00.000Z",
+    });
+  });
+});
+
+describe("duplicateTemplate", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv("RESEND_API_KEY", "test-api-key");
+  });
+
+  it("returns the ID of the copy", async () => {
+    mockTemplatesDuplicate.mockResolvedValue({
+      data: { object: "template", id: "template-456" },
+      error: null,
+    });
+    mockTemplatesGet.mockResolvedValue({ data: null, error: null });
+
+    const result = await execute(duplicateTemplate, { id: "template-123" });
+
+    expect(result).toMatchObject({ success: true, id: "template-456" });
+    expect(mockTemplatesGet).toHaveBeenCalledWith("template-456");
+  });
+});
+
+describe("removeTemplate", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv("RESEND_API_KEY", "test-api-key");
+  });
+
+  it("removes the template", async () => {
+    mockTemplatesRemove.mockResolvedValue({
+      data: { object: "template", id: "template-123", deleted: true },
+      error: null,
+    });
+
+    const result = await execute(removeTemplate, { id: "template-123" });
+
+    expect(result).toEqual({
+      success: true,
+      deleted: true,
+      id: "template-123",
+    });
+  });
+});
+
+describe("listDomains", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv("RESEND_API_KEY", "test-api-key");
+  });
+
+  it("lists domains successfully", async () => {
+    mockDomainsList.mockResolvedValue({
+      data: {
+        data: [
+          {
+            id: "domain-1",
+            name: "acme.com",
+            status: "verified",
+            region: "us-east-1",
+            created_at: "2024-01-01T00:00:00.000Z",
+          },
+        ],
+        has_more: false,
+      },
+      error: null,
+    });
+
+    const result = await execute(listDomains, { limit: 10 });
+
+    expect(result).toMatchObject({
+      count: 1,
+      hasMore: false,
+      domains: [{ id: "domain-1", name: "acme.com", status: "verified" }],
+    });
+    expect(mockDomainsList).toHaveBeenCalledWith({ limit: 10 });
+  });
+
+  it("handles list errors gracefully", async () => {
+    mockDomainsList.mockResolvedValue({
+      data: null,
+      error: { message: "Unauthorized" },
+    });
+
+    const result = await execute(listDomains, {});
+
+    expect(result).toMatchObject({
+      count: 0,
+      domains: [],
+      error: "Unauthorized",
+    });
+  });
+});
+
+describe("getDomain", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv("RESEND_API_KEY", "test-api-key");
+  });
+
+  it("retrieves the domain and its DNS records", async () => {
+    mockDomainsGet.mockResolvedValue({
+      data: {
+        id: "domain-1",
+        name: "acme.com",
+        status: "pending",
+        region: "us-east-1",
+        capabilities: { sending: "enabled", receiving: "disabled" },
+        records: [
+          {
+            record: "SPF",
+            name: "send",
+            type: "MX",
+            ttl: "Auto",
+            status: "verified",
+            value: "feedback-smtp.us-east-1.amazonses.com",
+            priority: 10,
+          },
+          {
+            record: "DKIM",
+            name: "resend._domainkey",
+            type: "TXT",
+            ttl: "Auto",
+            status: "pending",
+            value: "p=MIGfMA0",
+          },
+        ],
+        created_at: "2024-01-01T00:00:00.000Z",
+      },
+      error: null,
+    });
+
+    const result = await execute(getDomain, { id: "domain-1" });
+
+    expect(result).toMatchObject({
+      success: true,
+      name: "acme.com",
+      status: "pending",
+      sending: true,
+      receiving: false,
+      records: [
+        { record: "SPF", status: "verified", priority: 10 },
+        { record: "DKIM", status: "pending" },
+      ],
+    });
+  });
+
+  it("handles get errors gracefully", async () => {
+    mockDomainsGet.mockResolvedValue({
+      data: null,
+      error: { message: "Domain not found" },
+    });
+
+    const result = await execute(getDomain, { id: "nonexistent" });
+
+    expect(result).toMatchObject({
+      success: false,
+      id: "nonexistent",
+      error: "Domain not found",
+    });
+  });
+});
+
+describe("createDomain", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv("RESEND_API_KEY", "test-api-key");
+  });
+
+  it("creates a domain and returns its DNS records", async () => {
+    mockDomainsCreate.mockResolvedValue({
+      data: {
+        id: "domain-1",
+        name: "mail.acme.com",
+        status: "not_started",
+        records: [
+          {
+            record: "DKIM",
+            name: "resend._domainkey.mail",
+            type: "TXT",
+            ttl: "Auto",
+            status: "not_started",
+            value: "p=MIGfMA0",
+          },
+        ],
+      },
+      error: null,
+    });
+
+    const result = await execute(createDomain, {
+      name: "mail.acme.com",
+      region: "eu-west-1",
+    });
+
+    expect(result).toMatchObject({
+      success: true,
+      id: "domain-1",
+      records: [{ record: "DKIM", name: "resend._domainkey.mail" }],
+    });
+    expect(mockDomainsCreate).toHaveBeenCalledWith({
+      name: "mail.acme.com",
+      region: "eu-west-1",
+    });
+  });
+
+  it("handles create errors gracefully", async () => {
+    mockDomainsCreate.mockResolvedValue({
+      data: null,
+      error: { message: "Domain already exists" },
+    });
+
+    const result = await execute(createDomain, { name: "acme.com" });
+
+    expect(result).toMatchObject({
+      success: false,
+      error: "Domain already exists",
+    });
+  });
+});
+
+describe("verifyDomain", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv("RESEND_API_KEY", "test-api-key");
+  });
+
+  it("triggers verification", async () => {
+    mockDomainsVerify.mockResolvedValue({
+      data: { object: "domain", id: "domain-1" },
+      error: null,
+    });
+
+    const result = await execute(verifyDomain, { id: "domain-1" });
+
+    expect(result).toMatchObject({ success: true, id: "domain-1" });
+  });
+});
+
+describe("removeDomain", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv("RESEND_API_KEY", "test-api-key");
+  });
+
+  it("removes a domain successfully", async () => {
+    mockDomainsRemove.mockResolvedValue({
+      data: { object: "domain", id: "domain-1", deleted: true },
+      error: null,
+    });
+
+    const result = await execute(removeDomain, { id: "domain-1" });
+
+    expect(result).toMatchObject({
+      success: true,
+      deleted: true,
+      id: "domain-1",
+    });
+  });
+
+  it("handles remove errors gracefully", async () => {
+    mockDomainsRemove.mockResolvedValue({
+      data: null,
+      error: { message: "Domain not found" },
+    });
+
+    const result = await execute(removeDomain, { id: "nonexistent" });
+
+    expect(result).toMatchObject({
+      success: false,
+      deleted: false,
+      error: "Domain not found",
+    });
+  });
+});
+
+describe("listBroadcasts", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv("RESEND_API_KEY", "test-api-key");
+  });
+
+  it("lists broadcasts successfully", async () => {
+    mockBroadcastsList.mockResolvedValue({
+      data: {
+        data: [
+          {
+            id: "broadcast-1",
+            name: "March newsletter",
+            segment_id: "segment-1",
+            status: "draft",
+            created_at: "2024-03-01T00:00:00.000Z",
+            scheduled_at: null,
+            sent_at: null,
+          },
+        ],
+        has_more: true,
+      },
+      error: null,
+    });
+
+    const result = await execute(listBroadcasts, {});
+
+    expect(result).toMatchObject({
+      count: 1,
+      hasMore: true,
+      broadcasts: [
+        { id: "broadcast-1", segmentId: "segment-1", status: "draft" },
+      ],
+    });
+  });
+});
+
+describe("getBroadcast", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv("RESEND_API_KEY", "test-api-key");
+  });
+
+  it("retrieves broadcast details", async () => {
+    mockBroadcastsGet.mockResolvedValue({
+      data: {
+        id: "broadcast-1",
+        name: "March newsletter",
+        segment_id: "segment-1",
+        from: "news@acme.com",
+        subject: "What's new",
+        reply_to: ["support@acme.com"],
+        preview_text: "Three new features",
+        html: "<p>Hi</p>",
+        status: "draft",
+      },
+      error: null,
+    });
+
+    const result = await execute(getBroadcast, { id: "broadcast-1" });
+
+    expect(result).toMatchObject({
+      success: true,
+      segmentId: "segment-1",
+      replyTo: ["support@acme.com"],
+      previewText: "Three new features",
+    });
+  });
+});
+
+describe("createBroadcast", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv("RESEND_API_KEY", "test-api-key");
+  });
+
+  it("creates a draft broadcast", async () => {
+    mockBroadcastsCreate.mockResolvedValue({
+      data: { id: "broadcast-1" },
+      error: null,
+    });
+
+    const result = await execute(createBroadcast, {
+      segmentId: "segment-1",
+      from: "news@acme.com",
+      subject: "What's new",
+      html: "<p>Hi</p>",
+    });
+
+    expect(result).toMatchObject({ success: true, id: "broadcast-1" });
+    expect(mockBroadcastsCreate).toHaveBeenCalledWith({
+      segmentId: "segment-1",
+      from: "news@acme.com",
+      subject: "What's new",
+      html: "<p>Hi</p>",
+    });
+  });
+
+  it("copies content from a template", async () => {
+    mockTemplatesGet.mockResolvedValue({
+      data: {
+        id: "template-1",
+        from: "launch@acme.com",
+        subject: "We launched!",
+        html: "<p>Launch</p>",
+        reply_to: null,
+      },
+      error: null,
+    });
+    mockBroadcastsCreate.mockResolvedValue({
+      data: { id: "broadcast-1" },
+      error: null,
+    });
+
+    const result = await execute(createBroadcast, {
+      segmentId: "segment-1",
+      templateId: "product-launch",
+      subject: "We launched! 🎉",
+    });
+
+    expect(result).toMatchObject({ success: true });
+    expect(mockTemplatesGet).toHaveBeenCalledWith("product-launch");
+    expect(mockBroadcastsCreate).toHaveBeenCalledWith({
+      segmentId: "segment-1",
+      from: "launch@acme.com",
+      subject: "We launched! 🎉",
+      html: "<p>Launch</p>",
+    });
+  });
+
+  it("requires a sender and subject", async () => {
+    const result = await execute(createBroadcast, {
+      segmentId: "segment-1",
+      html: "<p>Hi</p>",
+    });
+
+    expect(result).toMatchObject({ success: false });
+    expect(mockBroadcastsCreate).not.toHaveBeenCalled();
+  });
+});
+
+describe("updateBroadcast", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv("RESEND_API_KEY", "test-api-key");
+  });
+
+  it("updates only the provided fields", async () => {
+    mockBroadcastsUpdate.mockResolvedValue({
+      data: { id: "broadcast-1" },
+      error: null,
+    });
+
+    const result = await execute(updateBroadcast, {
+      id: "broadcast-1",
+      subject: "Updated subject",
+    });
+
+    expect(result).toMatchObject({ success: true, id: "broadcast-1" });
+    expect(mockBroadcastsUpdate).toHaveBeenCalledWith("broadcast-1", {
+      subject: "Updated subject",
+    });
+  });
+});
+
+describe("sendBroadcast", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv("RESEND_API_KEY", "test-api-key");
+  });
+
+  it("schedules a broadcast", async () => {
+    mockBroadcastsSend.mockResolvedValue({
+      data: { id: "broadcast-1" },
+      error: null,
+    });
+
+    const result = await execute(sendBroadcast, {
+      id: "broadcast-1",
+      scheduledAt: "in 1 hour",
+    });
+
+    expect(result).toMatchObject({
+      success: true,
+      id: "broadcast-1",
+      scheduledAt: "in 1 hour",
+    });
+    expect(mockBroadcastsSend).toHaveBeenCalledWith("broadcast-1", {
+      scheduledAt: "in 1 hour",
+    });
+  });
+
+  it("handles send errors gracefully", async () => {
+    mockBroadcastsSend.mockResolvedValue({
+      data: null,
+      error: { message: "Broadcast has already been sent" },
+    });
+
+    const result = await execute(sendBroadcast, { id: "broadcast-1" });
+
+    expect(result).toMatchObject({
+      success: false,
+      error: "Broadcast has already been sent",
+    });
+  });
+
+  it("refuses to send while a sandbox inbox is set", async () => {
+    const tools = createResendTools({
+      recipients: { sandboxInbox: "sandbox@acme.com" },
+    });
+
+    const result = await execute(tools.sendBroadcast, { id: "broadcast-1" });
+
+    expect(result).toMatchObject({
+      success: false,
+      errorCode: "validation",
+      error:
+        "Broadcasts cannot be redirected to the sandbox inbox sandbox@acme.com, so sending them is disabled.",
+    });
+    expect(mockBroadcastsSend).not.toHaveBeenCalled();
+  });
+
+  it("sends in a sandbox when broadcasts are allowed", async () => {
+    mockBroadcastsSend.mockResolvedValue({
+      data: { id: "broadcast-1" },
+      error: null,
+    });
+    const tools = createResendTools({
+      recipients: { sandboxInbox: "sandbox@acme.com", allowBroadcasts: true },
+    });
+
+    const result = await execute(tools.sendBroadcast, { id: "broadcast-1" });
+
+    expect(result).toMatchObject({ success: true, id: "broadcast-1" });
+  });
+});
+
+describe("removeBroadcast", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv("RESEND_API_KEY", "test-api-key");
+  });
+
+  it("removes a broadcast successfully", async () => {
+    mockBroadcastsRemove.mockResolvedValue({
+      data: { object: "broadcast", id: "broadcast-1", deleted: true },
+      error: null,
+    });
+
+    const result = await execute(removeBroadcast, { id: "broadcast-1" });
+
+    expect(result).toMatchObject({
+      success: true,
+      deleted: true,
+      id: "broadcast-1",
+    });
+  });
+});
+
+describe("listSegments", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv("RESEND_API_KEY", "test-api-key");
+  });
+
+  it("lists segments successfully", async () => {
+    mockSegmentsList.mockResolvedValue({
+      data: {
+        data: [
+          {
+            id: "segment-1",
+            name: "Beta testers",
+            created_at: "2024-01-01T00:00:00.000Z",
+          },
+        ],
+        has_more: false,
+      },
+      error: null,
+    });
+
+    const result = await execute(listSegments, {});
+
+    expect(result).toMatchObject({
+      count: 1,
+      hasMore: false,
+      segments: [{ id: "segment-1", name: "Beta testers" }],
+    });
+  });
+
+  it("handles list errors gracefully", async () => {
+    mockSegmentsList.mockResolvedValue({
+      data: null,
+      error: { message: "Unauthorized" },
+    });
+
+    const result = await execute(listSegments, {});
+
+    expect(result).toMatchObject({
+      count: 0,
+      segments: [],
+      error: "Unauthorized",
+    });
+  });
+});
+
+describe("getSegment", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv("RESEND_API_KEY", "test-api-key");
+  });
+
+  it("retrieves a segment", async () => {
+    mockSegmentsGet.mockResolvedValue({
+      data: { object: "segment", id: "segment-1", name: "Beta testers" },
+      error: null,
+    });
+
+    const result = await execute(getSegment, { id: "segment-1" });
+
+    expect(result).toMatchObject({ success: true, name: "Beta testers" });
+  });
+});
+
+describe("createSegment", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv("RESEND_API_KEY", "test-api-key");
+  });
+
+  it("creates a segment", async () => {
+    mockSegmentsCreate.mockResolvedValue({
+      data: { object: "segment", id: "segment-1", name: "Beta testers" },
+      error: null,
+    });
+
+    const result = await execute(createSegment, { name: "Beta testers" });
+
+    expect(result).toMatchObject({ success: true, id: "segment-1" });
+  });
+});
+
+describe("removeSegment", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv("RESEND_API_KEY", "test-api-key");
+  });
+
+  it("handles remove errors gracefully", async () => {
+    mockSegmentsRemove.mockResolvedValue({
+      data: null,
+      error: { message: "Segment not found" },
+    });
+
+    const result = await execute(removeSegment, { id: "nonexistent" });
+
+    expect(result).toMatchObject({
+      success: false,
+      deleted: false,
+      error: "Segment not found",
+    });
+  });
+});
+
+describe("addContactToSegment", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv("RESEND_API_KEY", "test-api-key");
+  });
+
+  it("adds a contact by email", async () => {
+    mockContactSegmentsAdd.mockResolvedValue({
+      data: { id: "segment-1" },
+      error: null,
+    });
+
+    const result = await execute(addContactToSegment, {
+      contact: "jane@example.com",
+      segmentId: "segment-1",
+    });
+
+    expect(result).toMatchObject({ success: true, segmentId: "segment-1" });
+    expect(mockContactSegmentsAdd).toHaveBeenCalledWith({
+      email: "jane@example.com",
+      segmentId: "segment-1",
+    });
+  });
+});
+
+describe("removeContactFromSegment", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv("RESEND_API_KEY", "test-api-key");
+  });
+
+  it("removes a contact by ID", async () => {
+    mockContactSegmentsRemove.mockResolvedValue({
+      data: { id: "segment-1", deleted: true },
+      error: null,
+    });
+
+    const result = await execute(removeContactFromSegment, {
+      contact: "contact-123",
+      segmentId: "segment-1",
+    });
+
+    expect(result).toMatchObject({ success: true, contact: "contact-123" });
+    expect(mockContactSegmentsRemove).toHaveBeenCalledWith({
+      contactId: "contact-123",
+      segmentId: "segment-1",
+    });
+  });
+});
+
+describe("listTopics", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv("RESEND_API_KEY", "test-api-key");
+  });
+
+  it("lists topics successfully", async () => {
+    mockTopicsList.mockResolvedValue({
+      data: {
+        data: [
+          {
+            id: "topic-1",
+            name: "Product updates",
+            description: "New features",
+            default_subscription: "opt_in",
+            created_at: "2024-01-01T00:00:00.000Z",
+          },
+        ],
+      },
+      error: null,
+    });
+
+    const result = await execute(listTopics, {});
+
+    expect(result).toMatchObject({
+      count: 1,
+      topics: [
+        {
+          id: "topic-1",
+          name: "Product updates",
+          defaultSubscription: "opt_in",
+          createdAt: "2024-01-01T00:00:00.000Z",
+        },
+      ],
+    });
+  });
+});
+
+describe("getTopic", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv("RESEND_API_KEY", "test-api-key");
+  });
+
+  it("handles get errors gracefully", async () => {
+    mockTopicsGet.mockResolvedValue({
+      data: null,
+      error: { message: "Topic not found" },
+    });
+
+    const result = await execute(getTopic, { id: "nonexistent" });
+
+    expect(result).toMatchObject({
+      success: false,
+      id: "nonexistent",
+      error: "Topic not found",
+    });
+  });
+});
+
+describe("createTopic", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv("RESEND_API_KEY", "test-api-key");
+  });
+
+  it("creates a topic", async () => {
+    mockTopicsCreate.mockResolvedValue({
+      data: { id: "topic-1" },
+      error: null,
+    });
+
+    const result = await execute(createTopic, {
+      name: "Product updates",
+      defaultSubscription: "opt_in",
+    });
+
+    expect(result).toMatchObject({ success: true, id: "topic-1" });
+    expect(mockTopicsCreate).toHaveBeenCalledWith({
+      name: "Product updates",
+      defaultSubscription: "opt_in",
+    });
+  });
+});
+
+describe("updateTopic", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv("RESEND_API_KEY", "test-api-key");
+  });
+
+  it("sends only the provided fields", async () => {
+    mockTopicsUpdate.mockResolvedValue({
+      data: { id: "topic-1" },
+      error: null,
+    });
+
+    const result = await execute(updateTopic, {
+      id: "topic-1",
+      description: "Monthly product news",
+    });
+
+    expect(result).toMatchObject({ success: true, id: "topic-1" });
+    expect(mockTopicsUpdate).toHaveBeenCalledWith({
+      id: "topic-1",
+      description: "Monthly product news",
+    });
+  });
+});
+
+describe("getContactTopics", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv("RESEND_API_KEY", "test-api-key");
+  });
+
+  it("lists a contact's subscriptions by email", async () => {
+    mockContactTopicsList.mockResolvedValue({
+      data: {
+        object: "list",
+        has_more: false,
+        data: [
+          {
+            id: "topic-1",
+            name: "Product updates",
+            description: null,
+            subscription: "opt_in",
+          },
+        ],
+      },
+      error: null,
+    });
+
+    const result = await execute(getContactTopics, {
+      contact: "jane@example.com",
+    });
+
+    expect(result).toMatchObject({
+      success: true,
+      hasMore: false,
+      topics: [{ id: "topic-1", subscription: "opt_in" }],
+    });
+    expect(mockContactTopicsList).toHaveBeenCalledWith({
+      email: "jane@example.com",
+    });
+  });
+});
+
+describe("updateContactTopics", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv("RESEND_API_KEY", "test-api-key");
+  });
+
+  it("updates subscriptions by contact ID", async () => {
+    mockContactTopicsUpdate.mockResolvedValue({
+      data: { id: "contact-123" },
+      error: null,
+    });
+
+    const topics = [{ id: "topic-1", subscription: "opt_out" as const }];
+    const result = await execute(updateContactTopics, {
+      contact: "contact-123",
+      topics,
+    });
+
+    expect(result).toMatchObject({ success: true, topics });
+    expect(mockContactTopicsUpdate).toHaveBeenCalledWith({
+      id: "contact-123",
+      topics,
+    });
+  });
+
+  it("handles update errors gracefully", async () => {
+    mockContactTopicsUpdate.mockResolvedValue({
+      data: null,
+      error: { message: "Contact not found" },
+    });
+
+    const result = await execute(updateContactTopics, {
+      contact: "missing@example.com",
+      topics: [{ id: "topic-1", subscription: "opt_in" }],
+    });
+
+    expect(result).toMatchObject({
+      success: false,
+      topics: [],
+      error: "Contact not found",
+    });
+  });
+});
+
+describe("createResendTools", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.unstubAllEnvs();
+  });
+
+  it("uses the injected client", async () => {
+    const send = vi.fn().mockResolvedValue({
+      data: { id: "email-456" },
+      error: null,
+    });
+    const client = { emails: { send } } as unknown as Resend;
+    const tools = createResendTools({ client });
+
+    const result = await execute(tools.sendEmail, {
+      from: "hello@example.com",
+      to: ["user@example.com"],
+      subject: "Injected",
+      text: "Hello!",
+    });
+
+    expect(result).toMatchObject({ success: true, id: "email-456" });
+    expect(send).toHaveBeenCalledWith(
+      {
+        from: "hello@example.com",
+        to: ["user@example.com"],
+        subject: "Injected",
+        text: "Hello!",
+      },
+      { idempotencyKey: undefined }
+    );
+    expect(mockEmailsSend).not.toHaveBeenCalled();
+  });
+
+  it("creates a client from the provided apiKey", async () => {
+    vi.stubEnv("RESEND_API_KEY", "");
+    mockEmailsGet.mockResolvedValue({
+      data: { id: "email-123", from: "hello@example.com" },
+      error: null,
+    });
+    const tools = createResendTools({ apiKey: "re_test" });
+
+    const result = await execute(tools.getEmail, { emailId: "email-123" });
+
+    expect(result).toMatchObject({ success: true, id: "email-123" });
+  });
+
+  it("reuses the environment client until the API key changes", async () => {
+    mockEmailsGet.mockResolvedValue({
+      data: { id: "email-123" },
+      error: null,
+    });
+    vi.stubEnv("RESEND_API_KEY", "re_first");
+    const tools = createResendTools();
+
+    await execute(tools.getEmail, { emailId: "email-123" });
+    await execute(tools.getEmail, { emailId: "email-123" });
+    vi.stubEnv("RESEND_API_KEY", "re_second");
+    await execute(tools.getEmail, { emailId: "email-123" });
+
+    expect(mockResendConstructor.mock.calls).toEqual([
+      ["re_first"],
+      ["re_second"],
+    ]);
+  });
+
+  it("reports a missing API key", async () => {
+    vi.stubEnv("RESEND_API_KEY", "");
+    const tools = createResendTools();
+
+    const result = await execute(tools.getEmail, { emailId: "email-123" });
+
+    expect(result).toMatchObject({
+      success: false,
+      error: expect.stringContaining("RESEND_API_KEY"),
+    });
+  });
+
+  it("describes the configured sending domain", () => {
+    const tools = createResendTools({ emailDomain: "acme.com" });
+    const other = createResendTools({ emailDomain: "example.org" });
+
+    expect(tools.sendEmail.description).toContain("acme.com");
+    expect(tools.sendBatchEmails.description).toContain("acme.com");
+    expect(other.sendEmail.description).toContain("example.org");
+  });
+});
+
+describe("sender policy", () => {
+  const send = vi.fn();
+  const batchSend = vi.fn();
+  const client = {
+    emails: { send },
+    batch: { send: batchSend },
+  } as unknown as Resend;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    send.mockResolvedValue({ data: { id: "email-1" }, error: null });
+    batchSend.mockResolvedValue({
+      data: { data: [{ id: "email-1" }, { id: "email-2" }] },
+      error: null,
+    });
+  });
+
+  it("rejects senders outside the configured domain", async () => {
+    const tools = createResendTools({ client, emailDomain: "acme.com" });
+
+    const result = await execute(tools.sendEmail, {
+      from: "CEO <ceo@someone-else.com>",
+      to: ["user@example.com"],
+      subject: "Hi",
+      text: "Hello",
+    });
+
+    expect(result).toMatchObject({
+      success: false,
+      violations: [{ field: "from", action: "rejected" }],
+    });
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it("allows exact addresses and checks display names", async () => {
+    const tools = createResendTools({
+      client,
+      sender: {
+        allowedDomains: ["acme.com"],
+        allowedAddresses: ["founder@personal.dev"],
+        allowedNames: [ACME_NAME_PATTERN],
+      },
+    });
+
+    const allowed = await execute(tools.sendEmail, {
+      from: "Acme Founder <founder@personal.dev>",
+      to: ["user@example.com"],
+      subject: "Hi",
+      text: "Hello",
+    });
+    const badName = await execute(tools.sendEmail, {
+      from: "Support <help@acme.com>",
+      to: ["user@example.com"],
+      subject: "Hi",
+      text: "Hello",
+    });
+
+    expect(allowed).toMatchObject({ success: true, id: "email-1" });
+    expect(badName).toMatchObject({ success: false });
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+
+  it("matches global name patterns the same way every time", async () => {
+    const tools = createResendTools({
+      client,
+      sender: {
+        allowedDomains: ["acme.com"],
+        allowedNames: [GLOBAL_ACME_PATTERN],
+      },
+    });
+
+    const results: unknown[] = [];
+    for (let i = 0; i < 3; i++) {
+      results.push(
+        await execute(tools.sendEmail, {
+          from: "Acme <a@acme.com>",
+          to: ["user@example.com"],
+          subject: "Hi",
+          text: "Hello",
+        })
+      );
+    }
+
+    expect(
+      results.map((result) => (result as { success: boolean }).success)
+    ).toEqual([true, true, true]);
+  });
+
+  it("rewrites violating senders to the default", async () => {
+    const tools = createResendTools({
+      client,
+      sender: {
+        allowedDomains: ["acme.com"],
+        defaultFrom: "Acme <hello@acme.com>",
+        onViolation: "rewrite",
+      },
+    });
+
+    const result = await execute(tools.sendEmail, {
+      from: "ceo@someone-else.com",
+      to: ["user@example.com"],
+      subject: "Hi",
+      text: "Hello",
+    });
+
+    expect(result).toMatchObject({
+      success: true,
+      from: "Acme <hello@acme.com>",
+      violations: [{ value: "ceo@someone-else.com", action: "rewritten" }],
+    });
+    expect(send).toHaveBeenCalledWith(
+      expect.objectContaining({ from: "Acme <hello@acme.com>" }),
+      { idempotencyKey: undefined }
+    );
+  });
+
+  it("applies to broadcast senders", async () => {
+    const create = vi.fn();
+    const tools = createResendTools({
+      client: { broadcasts: { create } } as unknown as Resend,
+      emailDomain: "acme.com",
+    });
+
+    const result = await execute(tools.createBroadcast, {
+      segmentId: "segment-1",
+      from: "news@evil.com",
+      subject: "Hi",
+      html: "<p>Hi</p>",
+    });
+
+    expect(result).toMatchObject({
+      success: false,
+      violations: [{ field: "from", action: "rejected" }],
+    });
+    expect(create).not.toHaveBeenCalled();
+  });
+
+  it("applies to template senders", async () => {
+    const create = vi.fn();
+    const tools = createResendTools({
+      client: { templates: { create } } as unknown as Resend,
+      emailDomain: "acme.com",
+    });
+
+    const result = await execute(tools.createTemplate, {
+      name: "Welcome",
+      html: "<p>Hi</p>",
+      from: "hello@evil.com",
+    });
+
+    expect(result).toMatchObject({
+      success: false,
+      violations: [{ field: "from", action: "rejected" }],
+    });
+    expect(create).not.toHaveBeenCalled();
+  });
+
+  it("rejects a batch when any sender is not allowed", async () => {
+    const tools = createResendTools({ client, emailDomain: "acme.com" });
+
+    const result = await execute(tools.sendBatchEmails, {
+      emails: [
+        {
+          from: "hello@acme.com",
+          to: ["alice@example.com"],
+          subject: "Hi",
+          text: "Hello",
+        },
+        {
+          from: "hello@evil.com",
+          to: ["bob@example.com"],
+          subject: "Hi",
+          text: "Hello",
+        },
+      ],
+    });
+
+    expect(result).toMatchObject({
+      success: false,
+      violations: [{ index: 1, action: "rejected" }],
+    });
+    expect(batchSend).not.toHaveBeenCalled();
+  });
+});
+
+describe("recipient policy", () => {
+  const send = vi.fn();
+  const batchSend = vi.fn();
+  const client = {
+    emails: { send },
+    batch: { send: batchSend },
+  } as unknown as Resend;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    send.mockResolvedValue({ data: { id: "email-1" }, error: null });
+    batchSend.mockResolvedValue({
+      data: { data: [{ id: "email-1" }] },
+      error: null,
+    });
+  });
+
+  it("rejects denied recipients", async () => {
+    const tools = createResendTools({
+      client,
+      recipients: { deny: ["customer.com"] },
+    });
+
+    const result = await execute(tools.sendEmail, {
+      from: "hello@acme.com",
+      to: ["qa@acme.com"],
+      cc: ["jane@mail.customer.com"],
+      subject: "Hi",
+      text: "Hello",
+    });
+
+    expect(result).toMatchObject({
+      success: false,
+      violations: [
+        { field: "cc", value: "jane@mail.customer.com", action: "rejected" },
+      ],
+    });
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it("matches strings with an @ as exact addresses", async () => {
+    const tools = createResendTools({
+      client,
+      recipients: { deny: ["CEO@acme.com"] },
+    });
+
+    const blocked = await execute(tools.sendEmail, {
+      from: "hello@acme.com",
+      to: ["Jane <ceo@acme.com>"],
+      subject: "Hi",
+      text: "Hello",
+    });
+    const allowed = await execute(tools.sendEmail, {
+      from: "hello@acme.com",
+      to: ["cfo@acme.com"],
+      subject: "Hi",
+      text: "Hello",
+    });
+
+    expect(blocked).toMatchObject({
+      success: false,
+      violations: [{ field: "to", value: "Jane <ceo@acme.com>" }],
+    });
+    expect(allowed.success).toBe(true);
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+
+  it("matches global patterns the same way on every call", async () => {
+    const tools = createResendTools({
+      client,
+      recipients: { deny: [GLOBAL_CUSTOMER_PATTERN] },
+    });
+
+    for (let i = 0; i < 2; i++) {
+      const result = await execute(tools.sendEmail, {
+        from: "hello@acme.com",
+        to: ["jane@customer.com"],
+        subject: "Hi",
+        text: "Hello",
+      });
+      expect(result.success).toBe(false);
+    }
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it("removes recipients outside the allowlist", async () => {
+    const tools = createResendTools({
+      client,
+      recipients: { allow: ["acme.com", STAGING_PATTERN], onBlocked: "remove" },
+    });
+
+    const result = await execute(tools.sendEmail, {
+      from: "hello@acme.com",
+      to: ["qa@acme.com", "staging+1@example.com", "real@customer.com"],
+      subject: "Hi",
+      text: "Hello",
+    });
+
+    expect(result).toMatchObject({
+      success: true,
+      violations: [{ value: "real@customer.com", action: "removed" }],
+    });
+    expect(send).toHaveBeenCalledWith(
+      expect.objectContaining({
+        to: ["qa@acme.com", "staging+1@example.com"],
+      }),
+      { idempotencyKey: undefined }
+    );
+  });
+
+  it("fails when every recipient is removed", async () => {
+    const tools = createResendTools({
+      client,
+      recipients: { allow: ["acme.com"], onBlocked: "remove" },
+    });
+
+    const result = await execute(tools.sendEmail, {
+      from: "hello@acme.com",
+      to: ["real@customer.com"],
+      subject: "Hi",
+      text: "Hello",
+    });
+
+    expect(result).toMatchObject({ success: false });
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it("redirects every recipient to the sandbox inbox", async () => {
+    const tools = createResendTools({
+      client,
+      recipients: { sandboxInbox: "sandbox@acme.com" },
+    });
+
+    const result = await execute(tools.sendEmail, {
+      from: "hello@acme.com",
+      to: ["real@customer.com"],
+      bcc: ["audit@customer.com"],
+      subject: "Hi",
+      text: "Hello",
+    });
+
+    expect(result).toMatchObject({
+      success: true,
+      sandbox: {
+        inbox: "sandbox@acme.com",
+        originalRecipients: ["real@customer.com", "audit@customer.com"],
+      },
+    });
+    expect(send).toHaveBeenCalledWith(
+      {
+        from: "hello@acme.com",
+        to: ["sandbox@acme.com"],
+        subject: "Hi",
+        text: "Hello",
+        headers: {
+          "X-Original-To": "real@customer.com",
+          "X-Original-Bcc": "audit@customer.com",
+        },
+      },
+      { idempotencyKey: undefined }
+    );
+  });
+
+  it("redirects batch recipients to the sandbox inbox", async () => {
+    const tools = createResendTools({
+      client,
+      recipients: { sandboxInbox: "sandbox@acme.com" },
+    });
+
+    const result = await execute(tools.sendBatchEmails, {
+      emails: [
+        {
+          from: "hello@acme.com",
+          to: ["real@customer.com"],
+          subject: "Hi",
+          text: "Hello",
+        },
+      ],
+    });
+
+    expect(result).toMatchObject({
+      success: true,
+      sandbox: { originalRecipients: ["real@customer.com"] },
+    });
+    expect(batchSend).toHaveBeenCalledWith(
+      [expect.objectContaining({ to: ["sandbox@acme.com"] })],
+      { batchValidation: "strict" }
+    );
+  });
+});
+
+describe("dry run", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.unstubAllEnvs();
+  });
+
+  it("returns the payload instead of sending", async () => {
+    const tools = createResendTools({
+      dryRun: true,
+      recipients: { sandboxInbox: "sandbox@acme.com" },
+    });
+
+    const result = await execute(tools.sendEmail, {
+      from: "hello@acme.com",
+      to: ["user@example.com"],
+      subject: "Hi",
+      text: "Hello",
+    });
+
+    expect(result).toMatchObject({
+      success: true,
+      dryRun: true,
+      id: expect.stringMatching(DRY_RUN_ID_PATTERN),
+      payload: {
+        from: "hello@acme.com",
+        to: ["sandbox@acme.com"],
+        subject: "Hi",
+        text: "Hello",
+        headers: { "X-Original-To": "user@example.com" },
+      },
+    });
+    expect(mockEmailsSend).not.toHaveBeenCalled();
+  });
+
+  it("still applies policies in dry run", async () => {
+    const tools = createResendTools({ dryRun: true, emailDomain: "acme.com" });
+
+    const result = await execute(tools.sendEmail, {
+      from: "hello@evil.com",
+      to: ["user@example.com"],
+      subject: "Hi",
+      text: "Hello",
+    });
+
+    expect(result).toMatchObject({ success: false });
+    expect(result).not.toHaveProperty("dryRun");
+  });
+
+  it("can be enabled per call", async () => {
+    const tools = createResendTools();
+
+    const batch = await execute(tools.sendBatchEmails, {
+      emails: [
+        {
+          from: "hello@acme.com",
+          to: ["alice@example.com"],
+          subject: "Hi",
+          text: "Hello",
+        },
+      ],
+      dryRun: true,
+    });
+    const contact = await execute(tools.createContact, {
+      email: "jane@example.com",
+      segments: ["seg_123"],
+      dryRun: true,
+    });
+    const removed = await execute(tools.removeContact, {
+      id: "contact-123",
+      dryRun: true,
+    });
+
+    expect(batch).toMatchObject({ success: true, count: 1, dryRun: true });
+    expect(contact).toMatchObject({
+      success: true,
+      dryRun: true,
+      payload: { email: "jane@example.com", segments: [{ id: "seg_123" }] },
+    });
+    expect(removed).toMatchObject({
+      success: true,
+      deleted: false,
+      dryRun: true,
+      payload: { id: "contact-123" },
+    });
+    expect(mockBatchSend).not.toHaveBeenCalled();
+    expect(mockContactsCreate).not.toHaveBeenCalled();
+    expect(mockContactsRemove).not.toHaveBeenCalled();
+  });
+
+  it("covers the broadcast tools", async () => {
+    vi.stubEnv("RESEND_API_KEY", "test-api-key");
+    const tools = createResendTools({ dryRun: true });
+
+    const created = await execute(tools.createBroadcast, {
+      segmentId: "segment-1",
+      from: "news@acme.com",
+      subject: "March news",
+      html: "<p>News</p>",
+    });
+    const updated = await execute(tools.updateBroadcast, {
+      id: "broadcast-1",
+      subject: "April news",
+    });
+    const sent = await execute(tools.sendBroadcast, {
+      id: "broadcast-1",
+      scheduledAt: "in 1 hour",
+    });
+    const removed = await execute(tools.removeBroadcast, {
+      id: "broadcast-1",
+    });
+
+    expect(created).toMatchObject({
+      success: true,
+      dryRun: true,
+      id: expect.stringMatching(DRY_RUN_ID_PATTERN),
+      payload: { segmentId: "segment-1", subject: "March news" },
+    });
+    expect(updated).toMatchObject({
+      success: true,
+      dryRun: true,
+      payload: { id: "broadcast-1", subject: "April news" },
+    });
+    expect(sent).toMatchObject({
+      success: true,
+      dryRun: true,
+      payload: { id: "broadcast-1", scheduledAt: "in 1 hour" },
+    });
+    expect(removed).toMatchObject({
+      success: true,
+      deleted: false,
+      dryRun: true,
+    });
+    expect(mockBroadcastsCreate).not.toHaveBeenCalled();
+    expect(mockBroadcastsUpdate).not.toHaveBeenCalled();
+    expect(mockBroadcastsSend).not.toHaveBeenCalled();
+    expect(mockBroadcastsRemove).not.toHaveBeenCalled();
+  });
+
+  it("covers the domain tools", async () => {
+    const tools = createResendTools({ dryRun: true });
+
+    const created = await execute(tools.createDomain, {
+      name: "mail.acme.com",
+      region: "eu-west-1",
+    });
+    const verified = await execute(tools.verifyDomain, { id: "domain-1" });
+    const removed = await execute(tools.removeDomain, { id: "domain-1" });
+
+    expect(created).toMatchObject({
+      success: true,
+      dryRun: true,
+      id: expect.stringMatching(DRY_RUN_ID_PATTERN),
+      payload: { name: "mail.acme.com", region: "eu-west-1" },
+    });
+    expect(verified).toMatchObject({ success: true, dryRun: true });
+    expect(removed).toMatchObject({
+      success: true,
+      deleted: false,
+      dryRun: true,
+    });
+    expect(mockDomainsCreate).not.toHaveBeenCalled();
+    expect(mockDomainsVerify).not.toHaveBeenCalled();
+    expect(mockDomainsRemove).not.toHaveBeenCalled();
+  });
+
+  it("covers the segment tools", async () => {
+    const tools = createResendTools({ dryRun: true });
+
+    const created = await execute(tools.createSegment, { name: "Beta" });
+    const added = await execute(tools.addContactToSegment, {
+      contact: "jane@example.com",
+      segmentId: "segment-1",
+    });
+    const removed = await execute(tools.removeSegment, { id: "segment-1" });
+
+    expect(created).toMatchObject({
+      success: true,
+      dryRun: true,
+      id: expect.stringMatching(DRY_RUN_ID_PATTERN),
+    });
+    expect(added).toMatchObject({
+      success: true,
+      dryRun: true,
+      payload: { email: "jane@example.com", segmentId: "segment-1" },
+    });
+    expect(removed).toMatchObject({ success: true, deleted: false });
+    expect(mockSegmentsCreate).not.toHaveBeenCalled();
+    expect(mockContactSegmentsAdd).not.toHaveBeenCalled();
+    expect(mockSegmentsRemove).not.toHaveBeenCalled();
+  });
+
+  it("covers the topic tools", async () => {
+    const tools = createResendTools({ dryRun: true });
+
+    const created = await execute(tools.createTopic, {
+      name: "Product updates",
+      defaultSubscription: "opt_in",
+    });
+    const updated = await execute(tools.updateContactTopics, {
+      contact: "jane@example.com",
+      topics: [{ id: "topic-1", subscription: "opt_out" }],
+    });
+
+    expect(created).toMatchObject({
+      success: true,
+      dryRun: true,
+      id: expect.stringMatching(DRY_RUN_ID_PATTERN),
+    });
+    expect(updated).toMatchObject({
+      success: true,
+      dryRun: true,
+      payload: {
+        email: "jane@example.com",
+        topics: [{ id: "topic-1", subscription: "opt_out" }],
+      },
+    });
+    expect(mockTopicsCreate).not.toHaveBeenCalled();
+    expect(mockContactTopicsUpdate).not.toHaveBeenCalled();
+  });
+
+  it("covers the template tools", async () => {
+    const tools = createResendTools({ dryRun: true });
+
+    const created = await execute(tools.createTemplate, {
+      name: "Welcome",
+      html: "<p>Hi</p>",
+      from: "hello@acme.com",
+    });
+    const published = await execute(tools.publishTemplate, { id: "welcome" });
+    const removed = await execute(tools.removeTemplate, { id: "welcome" });
+
+    expect(created).toMatchObject({
+      success: true,
+      dryRun: true,
+      id: expect.stringMatching(DRY_RUN_ID_PATTERN),
+      payload: { name: "Welcome", html: "<p>Hi</p>", from: "hello@acme.com" },
+    });
+    expect(published).toMatchObject({ success: true, dryRun: true });
+    expect(removed).toMatchObject({
+      success: true,
+      deleted: false,
+      dryRun: true,
+    });
+    expect(mockTemplatesCreate).not.toHaveBeenCalled();
+    expect(mockTemplatesPublish).not.toHaveBeenCalled();
+    expect(mockTemplatesRemove).not.toHaveBeenCalled();
+  });
+
+  it("covers the scheduled email tools", async () => {
+    const tools = createResendTools({ dryRun: true });
+
+    const updated = await execute(tools.updateScheduledEmail, {
+      id: "email-1",
+      scheduledAt: "in 2 hours",
+    });
+    const cancelled = await execute(tools.cancelScheduledEmail, {
+      id: "email-1",
+    });
+
+    expect(updated).toMatchObject({
+      success: true,
+      dryRun: true,
+      payload: { id: "email-1", scheduledAt: "in 2 hours" },
+    });
+    expect(cancelled).toMatchObject({
+      success: true,
+      cancelled: false,
+      dryRun: true,
+    });
+    expect(mockEmailsUpdate).not.toHaveBeenCalled();
+    expect(mockEmailsCancel).not.toHaveBeenCalled();
+  });
+
+  it("is accepted by every tool that writes to Resend", () => {
+    const tools = createResendTools();
+    const writers = Object.entries(tools).filter(
+      ([name]) => !READ_ONLY_TOOL_PATTERN.test(name)
+    );
+
+    const missing = writers
+      .filter(
+        ([, tool]) =>
+          !("dryRun" in (tool.inputSchema as { shape: object }).shape)
+      )
+      .map(([name]) => name);
+
+    expect(writers.length).toBeGreaterThan(20);
+    expect(missing).toEqual([]);
+  });
+});
+
+describe("idempotency", () => {
+  const send = vi.fn();
+  const client = { emails: { send } } as unknown as Resend;
+  const input = {
+    from: "hello@acme.com",
+    to: ["user@example.com"],
+    subject: "Your code",
+    text: "123456",
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    send.mockResolvedValue({ data: { id: "email-1" }, error: null });
+  });
+
+  it("returns the original email for a repeated tool call", async () => {
+    const tools = createResendTools({ client, idempotency: true });
+
+    const first = await execute(tools.sendEmail, input);
+    const second = await execute(tools.sendEmail, input);
+
+    expect(first).toMatchObject({ success: true, id: "email-1" });
+    expect(second).toMatchObject({
+      success: true,
+      id: "email-1",
+      duplicate: true,
+      idempotencyKey: (first as { idempotencyKey: string }).idempotencyKey,
+    });
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(send).toHaveBeenCalledWith(expect.anything(), {
+      idempotencyKey: expect.stringMatching(SHA256_PATTERN),
+    });
+  });
+
+  it("dedupes identical payloads across tool calls with payload scope", async () => {
+    const scoped = createResendTools({ client, idempotency: true });
+    const payload = createResendTools({
+      client,
+      idempotency: { scope: "payload" },
+    });
+
+    await scoped.sendEmail.execute?.(input, { toolCallId: "a", messages: [] });
+    await scoped.sendEmail.execute?.(input, { toolCallId: "b", messages: [] });
+    await payload.sendEmail.execute?.(input, { toolCallId: "a", messages: [] });
+    await payload.sendEmail.execute?.(input, { toolCallId: "b", messages: [] });
+
+    expect(send).toHaveBeenCalledTimes(3);
+  });
+
+  it("forwards explicit keys and uses the provided store", async () => {
+    const store = {
+      get: vi.fn().mockResolvedValue({ ids: ["email-0"] }),
+      set: vi.fn(),
+    };
+    const tools = createResendTools({ client, idempotency: { store } });
+
+    const result = await execute(tools.sendEmail, {
+      ...input,
+      idempotencyKey: "welcome-user-42",
+    });
+
+    expect(result).toMatchObject({
+      success: true,
+      id: "email-0",
+      duplicate: true,
+      idempotencyKey: "welcome-user-42",
+    });
+    expect(store.get).toHaveBeenCalledWith("welcome-user-42");
+    expect(send).not.toHaveBeenCalled();
+  });
+});
+
+describe("template validation", () => {
+  const send = vi.fn();
+  const get = vi.fn();
+  const client = { emails: { send }, templates: { get } } as unknown as Resend;
+  const input = {
+    from: "hello@acme.com",
+    to: ["user@example.com"],
+    subject: "Welcome",
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    send.mockResolvedValue({ data: { id: "email-1" }, error: null });
+    get.mockResolvedValue({
+      data: {
+        id: "template-123",
+        status: "published",
+        variables: [
+          { key: "FIRST_NAME", type: "string", fallback_value: "there" },
+          { key: "CODE", type: "number", fallback_value: null },
+          { key: "PLAN", type: "string", fallback_value: null },
+        ],
+      },
+      error: null,
+    });
+  });
+
+  it("reports the fallbacks that will be used", async () => {
+    const tools = createResendTools({ client, validateTemplates: true });
+
+    const result = await execute(tools.sendEmail, {
+      ...input,
+      template: { id: "template-123", variables: { CODE: 42, PLAN: "pro" } },
+    });
+
+    expect(result).toMatchObject({
+      success: true,
+      templateValidation: {
+        missing: [],
+        unknown: [],
+        mistyped: [],
+        fallbacks: [{ key: "FIRST_NAME", value: "there" }],
+      },
+    });
+    expect(get).toHaveBeenCalledWith("template-123");
+  });
+
+  it("rejects missing, unknown and mistyped variables", async () => {
+    const tools = createResendTools({ client, validateTemplates: true });
+
+    const result = await execute(tools.sendEmail, {
+      ...input,
+      template: {
+        id: "template-123",
+        variables: { CODE: "42", PLAM: "pro" },
+      },
+    });
+
+    expect(result).toMatchObject({
+      success: false,
+      templateValidation: {
+        missing: ["PLAN"],
+        unknown: ["PLAM"],
+        mistyped: [{ key: "CODE", expected: "number", received: "string" }],
+      },
+    });
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it("rejects unpublished templates", async () => {
+    get.mockResolvedValue({
+      data: { id: "template-123", status: "draft", variables: [] },
+      error: null,
+    });
+    const tools = createResendTools({ client });
+
+    const result = await execute(tools.sendEmail, {
+      ...input,
+      template: { id: "template-123" },
+      validateTemplate: true,
+    });
+
+    expect(result).toMatchObject({ success: false });
+    expect((result as { error: string }).error).toContain("not published");
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it("skips validation by default", async () => {
+    const tools = createResendTools({ client });
+
+    const result = await execute(tools.sendEmail, {
+      ...input,
+      template: { id: "template-123", variables: { ANYTHING: "x" } },
+    });
+
+    expect(result).toMatchObject({ success: true, id: "email-1" });
+    expect(get).not.toHaveBeenCalled();
+  });
+});
+
+describe("batch chunking", () => {
+  const batchSend = vi.fn();
+  const client = { batch: { send: batchSend } } as unknown as Resend;
+  const emailsFor = (count: number) =>
+    Array.from({ length: count }, (_, i) => ({
+      from: "hello@acme.com",
+      to: [`user${i}@example.com`],
+      subject: "Hi",
+      text: "Hello",
+    }));
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    batchSend.mockImplementation(async (emails: { to: string[] }[]) => ({
+      data: { data: emails.map((email) => ({ id: `id-${email.to[0]}` })) },
+      error: null,
+    }));
+  });
+
+  it("rejects more than 100 emails unless chunking is enabled", () => {
+    const tools = createResendTools({ client });
+    const schema = tools.sendBatchEmails.inputSchema as unknown as {
+      safeParse: (value: unknown) => { success: boolean };
+    };
+
+    expect(schema.safeParse({ emails: emailsFor(101) }).success).toBe(false);
+  });
+
+  it("splits large inputs into chunks with per-chunk idempotency keys", async () => {
+    const tools = createResendTools({ client, batch: { chunking: true } });
+
+    const result = await execute(tools.sendBatchEmails, {
+      emails: emailsFor(250),
+      idempotencyKey: "newsletter",
+    });
+
+    expect(batchSend).toHaveBeenCalledTimes(3);
+    expect(
+      batchSend.mock.calls.map(([emails, options]) => [
+        emails.length,
+        options.idempotencyKey,
+      ])
+    ).toEqual([
+      [100, "newsletter-0"],
+      [100, "newsletter-1"],
+      [50, "newsletter-2"],
+    ]);
+    expect(result).toMatchObject({ success: true, count: 250 });
+    const { results } = result as { results: { index: number; id: string }[] };
+    expect(results[249]).toEqual({ index: 249, id: "id-user249@example.com" });
+  });
+
+  it("reports which emails were sent when a chunk fails", async () => {
+    batchSend
+      .mockImplementationOnce(async () => ({
+        data: null,
+        error: { message: "Rate limit exceeded" },
+      }))
+      .mockImplementationOnce(async () => ({
+        data: { data: [{ id: "email-100" }] },
+        error: null,
+      }));
+    const tools = createResendTools({
+      client,
+      batch: { chunking: true, concurrency: 1 },
+    });
+
+    const result = await execute(tools.sendBatchEmails, {
+      emails: emailsFor(101),
+    });
+
+    expect(result).toMatchObject({
+      success: false,
+      ids: ["email-100"],
+      count: 1,
+      error:
+        "100 of 101 email(s) failed. First error (email 0): Rate limit exceeded",
+    });
+    const { results } = result as { results: unknown[] };
+    expect(results[0]).toMatchObject({
+      index: 0,
+      error: "Rate limit exceeded",
+    });
+    expect(results[100]).toEqual({ index: 100, id: "email-100" });
+  });
+
+  it("maps permissive validation errors to their emails", async () => {
+    batchSend.mockResolvedValue({
+      data: {
+        data: [{ id: "email-0" }, { id: "email-2" }],
+        errors: [{ index: 1, message: "Invalid `to` field" }],
+      },
+      error: null,
+    });
+    const tools = createResendTools({ client });
+
+    const result = await execute(tools.sendBatchEmails, {
+      emails: emailsFor(3),
+      batchValidation: "permissive",
+    });
+
+    expect(batchSend).toHaveBeenCalledWith(expect.anything(), {
+      batchValidation: "permissive",
+    });
+    expect(result).toMatchObject({
+      success: false,
+      ids: ["email-0", "email-2"],
+      results: [
+        { index: 0, id: "email-0" },
+        { index: 1, error: "Invalid `to` field" },
+        { index: 2, id: "email-2" },
+      ],
+    });
+  });
+});
+
+describe("retries", () => {
+  const send = vi.fn();
+  const get = vi.fn();
+  const client = { emails: { send, get } } as unknown as Resend;
+  const input = {
+    from: "hello@acme.com",
+    to: ["user@example.com"],
+    subject: "Hi",
+    text: "Hello",
+  };
+  const serverError = {
+    data: null,
+    error: { name: "internal_server_error", statusCode: 500, message: "Oops" },
+    headers: null,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("retries reads after server errors", async () => {
+    get.mockResolvedValueOnce(serverError).mockResolvedValueOnce({
+      data: { id: "email-1", to: [], subject: "Hi" },
+      error: null,
+    });
+    const tools = createResendTools({ client, retry: { baseDelayMs: 1 } });
+
+    const result = await execute(tools.getEmail, { emailId: "email-1" });
+
+    expect(result).toMatchObject({ success: true, id: "email-1" });
+    expect(get).toHaveBeenCalledTimes(2);
+  });
+
+  it("honours Retry-After on rate limits", async () => {
+    send
+      .mockResolvedValueOnce({
+        data: null,
+        error: {
+          name: "rate_limit_exceeded",
+          statusCode: 429,
+          message: "Too many requests",
+        },
+        headers: { "retry-after": "0.01" },
+      })
+      .mockResolvedValueOnce({ data: { id: "email-1" }, error: null });
+    const tools = createResendTools({ client });
+
+    const result = await execute(tools.sendEmail, input);
+
+    expect(result).toMatchObject({ success: true, id: "email-1" });
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+
+  it("only retries sends after server errors with an idempotency key", async () => {
+    send.mockResolvedValue(serverError);
+    const tools = createResendTools({
+      client,
+      retry: { maxRetries: 3, baseDelayMs: 1 },
+    });
+
+    const withoutKey = await execute(tools.sendEmail, input);
+    expect(withoutKey).toMatchObject({ success: false, error: "Oops" });
+    expect(send).toHaveBeenCalledTimes(1);
+
+    await execute(tools.sendEmail, { ...input, idempotencyKey: "welcome-1" });
+    expect(send).toHaveBeenCalledTimes(5);
+  });
+
+  it("does not retry when disabled", async () => {
+    get.mockResolvedValue(serverError);
+    const tools = createResendTools({ client, retry: false });
+
+    await execute(tools.getEmail, { emailId: "email-1" });
+
+    expect(get).toHaveBeenCalledTimes(1);
+  });
+
+  it("spaces out requests with the rate limit", async () => {
+    get.mockResolvedValue({ data: { id: "email-1" }, error: null });
+    const tools = createResendTools({
+      client,
+      rateLimit: { requestsPerSecond: 20 },
+    });
+
+    const started = Date.now();
+    await Promise.all(
+      Array.from({ length: 22 }, () =>
+        execute(tools.getEmail, { emailId: "email-1" })
+      )
+    );
+
+    expect(get).toHaveBeenCalledTimes(22);
+    expect(Date.now() - started).toBeGreaterThanOrEqual(90);
+  });
+});
+
+describe("error codes", () => {
+  const send = vi.fn();
+  const get = vi.fn();
+  const client = { emails: { send, get } } as unknown as Resend;
+  const input = {
+    from: "hello@acme.com",
+    to: ["user@example.com"],
+    subject: "Hi",
+    text: "Hello",
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("maps Resend error names to error codes", async () => {
+    get.mockResolvedValue({
+      data: null,
+      error: { name: "not_found", statusCode: 404, message: "Email not found" },
+    });
+    const tools = createResendTools({ client });
+
+    const result = await execute(tools.getEmail, { emailId: "missing" });
+
+    expect(result).toMatchObject({
+      success: false,
+      error: "Email not found",
+      errorCode: "not_found",
+      retryable: false,
+      resendErrorName: "not_found",
+      statusCode: 404,
+    });
+  });
+
+  it("recognises unverified sending domains", async () => {
+    send.mockResolvedValue({
+      data: null,
+      error: {
+        name: "validation_error",
+        statusCode: 403,
+        message:
+          "The acme.com domain is not verified. Please, add and verify your domain.",
+      },
+    });
+    const tools = createResendTools({ client });
+
+    const result = await execute(tools.sendEmail, input);
+
+    expect(result).toMatchObject({
+      errorCode: "domain_not_verified",
+      retryable: false,
+    });
+  });
+
+  it("marks rate limits and quota errors", async () => {
+    send
+      .mockResolvedValueOnce({
+        data: null,
+        error: {
+          name: "rate_limit_exceeded",
+          statusCode: 429,
+          message: "Too many requests",
+        },
+      })
+      .mockResolvedValueOnce({
+        data: null,
+        error: {
+          name: "daily_quota_exceeded",
+          statusCode: 429,
+          message: "You have reached your daily email sending quota.",
+        },
+      });
+    const tools = createResendTools({ client, retry: false });
+
+    expect(await execute(tools.sendEmail, input)).toMatchObject({
+      errorCode: "rate_limited",
+      retryable: true,
+    });
+    expect(await execute(tools.sendEmail, input)).toMatchObject({
+      errorCode: "quota_exceeded",
+      retryable: false,
+    });
+  });
+
+  it("reports policy violations as validation errors", async () => {
+    const tools = createResendTools({ client, emailDomain: "acme.com" });
+
+    const result = await execute(tools.sendEmail, {
+      ...input,
+      from: "hello@other.com",
+    });
+
+    expect(result).toMatchObject({
+      success: false,
+      errorCode: "validation",
+      retryable: false,
+    });
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it("reports thrown errors as internal", async () => {
+    send.mockRejectedValue(new Error("Socket closed"));
+    const tools = createResendTools({ client });
+
+    const result = await execute(tools.sendEmail, input);
+
+    expect(result).toMatchObject({
+      success: false,
+      error: "Socket closed",
+      errorCode: "internal",
+      retryable: false,
+    });
+  });
+});
+
+describe("logging", () => {
+  const send = vi.fn();
+  const client = { emails: { send } } as unknown as Resend;
+  const logger = {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  };
+  const input = {
+    from: "hello@acme.com",
+    to: ["jane@example.com"],
+    subject: "Your invoice",
+    html: "<p>Hi Jane</p>",
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("reports the outcome, duration, and request ID of each call", async () => {
+    send.mockResolvedValue({
+      data: { id: "email-1" },
+      error: null,
+      headers: { "x-request-id": "req_123" },
+    });
+    const tools = createResendTools({ client, logger });
+
+    await execute(tools.sendEmail, input);
+
+    expect(logger.info).toHaveBeenCalledWith("Resend tool succeeded", {
+      tool: "sendEmail",
+      toolCallId: "test",
+      durationMs: expect.any(Number),
+      requestId: "req_123",
+      outcome: "success",
+    });
+    expect(logger.debug).toHaveBeenCalledWith(
+      "Resend request",
+      expect.objectContaining({
+        method: "emails.send",
+        requestId: "req_123",
+        tool: "sendEmail",
+      })
+    );
+  });
+
+  it("reports failed results with their error code", async () => {
+    send.mockResolvedValue({
+      data: null,
+      error: { name: "not_found", statusCode: 404, message: "Not found" },
+    });
+    const tools = createResendTools({ client, logger });
+
+    await execute(tools.sendEmail, input);
+
+    expect(logger.warn).toHaveBeenCalledWith(
+      "Resend tool failed",
+      expect.objectContaining({
+        tool: "sendEmail",
+        outcome: "error",
+        errorCode: "not_found",
+      })
+    );
+  });
+
+  it("redacts addresses, subjects, and bodies by default", async () => {
+    send.mockRejectedValue(new Error("Rejected jane@example.com"));
+    const tools = createResendTools({ client, logger });
+
+    await execute(tools.sendEmail, input);
+
+    expect(logger.debug).toHaveBeenCalledWith("Resend tool called", {
+      tool: "sendEmail",
+      toolCallId: "test",
+      input: {
+        from: "[redacted]@acme.com",
+        to: ["[redacted]@example.com"],
+        subject: "[redacted]",
+        html: "[redacted]",
+      },
+    });
+    expect(logger.error).toHaveBeenCalledWith("Error sending email", {
+      error: { name: "Error", message: "Rejected [redacted]@example.com" },
+    });
+  });
+
+  it("logs content when redaction is turned off", async () => {
+    send.mockResolvedValue({ data: { id: "email-1" }, error: null });
+    const tools = createResendTools({
+      client,
+      logger,
+      redact: { emails: false, subjects: false, bodies: false },
+    });
+
+    await execute(tools.sendEmail, input);
+
+    expect(logger.debug).toHaveBeenCalledWith("Resend tool called", {
+      tool: "sendEmail",
+      toolCallId: "test",
+      input,
+    });
+  });
+
+  it("stays silent when logging is disabled", async () => {
+    const consoleError = vi
+      .spyOn(console, "error")
+      .mockImplementation(() => undefined);
+    send.mockRejectedValue(new Error("Socket closed"));
+    const tools = createResendTools({ client, logger: false });
+
+    await execute(tools.sendEmail, input);
+
+    expect(consoleError).not.toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+});
+
+describe("telemetry", () => {
+  interface RecordedSpan {
+    name: string;
+    attributes: Record<string, unknown>;
+    status?: { code: number; message?: string };
+    ended: boolean;
+  }
+
+  const send = vi.fn();
+  const batchSend = vi.fn();
+  const client = {
+    emails: { send },
+    batch: { send: batchSend },
+  } as unknown as Resend;
+  const spans: RecordedSpan[] = [];
+  const tracer = {
+    startActiveSpan: (
+      name: string,
+      options: { attributes?: Record<string, unknown> },
+      fn: (span: unknown) => unknown
+    ) => {
+      const span: RecordedSpan = {
+        name,
+        attributes: { ...options.attributes },
+        ended: false,
+      };
+      spans.push(span);
+      return fn({
+        setAttributes: (attributes: Record<string, unknown>) =>
+          Object.assign(span.attributes, attributes),
+        setStatus: (status: RecordedSpan["status"]) => {
+          span.status = status;
+        },
+        end: () => {
+          span.ended = true;
+        },
+      });
+    },
+  };
+  const input = {
+    from: "hello@acme.com",
+    to: ["jane@example.com", "john@example.com"],
+    cc: ["team@acme.com"],
+    subject: "Your invoice",
+    html: "<p>Hi</p>",
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    spans.length = 0;
+    trace.setGlobalTracerProvider({
+      getTracer: () => tracer as unknown as Tracer,
+    });
+  });
+
+  afterEach(() => {
+    trace.disable();
+  });
+
+  it("wraps each call in a span without its content", async () => {
+    send.mockResolvedValue({
+      data: { id: "email-1" },
+      error: null,
+      headers: { "x-request-id": "req_123" },
+    });
+    const tools = createResendTools({ client });
+
+    await execute(tools.sendEmail, input);
+
+    expect(spans).toEqual([
+      {
+        name: "resend.sendEmail",
+        attributes: {
+          "resend.tool": "sendEmail",
+          "resend.tool_call_id": "test",
+          "resend.recipient_count": 3,
+          "resend.retries": 0,
+          "resend.request_id": "req_123",
+          "resend.outcome": "success",
+        },
+        ended: true,
+      },
+    ]);
+  });
+
+  it("records failures, retries, and batch sizes", async () => {
+    batchSend
+      .mockResolvedValueOnce({
+        data: null,
+        error: {
+          name: "rate_limit_exceeded",
+          statusCode: 429,
+          message: "Slow",
+        },
+      })
+      .mockResolvedValueOnce({
+        data: null,
+        error: { name: "validation_error", statusCode: 422, message: "Bad" },
+      });
+    const tools = createResendTools({ client, retry: { baseDelayMs: 1 } });
+
+    await execute(tools.sendBatchEmails, {
+      emails: [
+        { ...input, template: { id: "tmpl-1" } },
+        { ...input, to: ["amy@example.com"] },
+      ],
+    });
+
+    expect(spans[0]?.attributes).toMatchObject({
+      "resend.batch_size": 2,
+      "resend.recipient_count": 5,
+      "resend.retries": 1,
+      "resend.outcome": "error",
+      "resend.error_code": "validation",
+    });
+    expect(spans[0]?.status).toEqual({ code: 2, message: "validation" });
+  });
+
+  it("records template IDs, and addresses and subjects when not redacted", async () => {
+    send.mockResolvedValue({ data: { id: "email-1" }, error: null });
+    const tools = createResendTools({
+      client,
+      redact: { emails: false, subjects: false },
+    });
+
+    await execute(tools.sendEmail, {
+      from: "hello@acme.com",
+      to: ["jane@example.com"],
+      subject: "Your invoice",
+      template: { id: "tmpl-1" },
+    });
+
+    expect(spans[0]?.attributes).toMatchObject({
+      "resend.recipient_count": 1,
+      "resend.email.to": ["jane@example.com"],
+      "resend.email.subject": "Your invoice",
+      "resend.template_id": "tmpl-1",
+    });
+  });
+
+  it("does not create spans when disabled", async () => {
+    send.mockResolvedValue({ data: { id: "email-1" }, error: null });
+    const tools = createResendTools({ client, telemetry: false });
+
+    await execute(tools.sendEmail, input);
+
+    expect(spans).toHaveLength(0);
+  });
+});
+
+describe("hooks", () => {
+  const send = vi.fn();
+  const remove = vi.fn();
+  const client = {
+    emails: { send },
+    contacts: { remove },
+  } as unknown as Resend;
+  const input = {
+    from: "hello@acme.com",
+    to: ["user@example.com"],
+    subject: "Hi",
+    text: "Hello",
+  };
+  const callOptions: ToolExecutionOptions = {
+    toolCallId: "call-1",
+    messages: [],
+    experimental_context: { userId: "user-1" },
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("passes the input, Resend payload, and result to afterExecute", async () => {
+    send.mockResolvedValue({ data: { id: "email-1" }, error: null });
+    const afterExecute = vi.fn();
+    const tools = createResendTools({ client, hooks: { afterExecute } });
+
+    const result = await tools.sendEmail.execute?.(input, callOptions);
+
+    expect(afterExecute).toHaveBeenCalledWith({
+      tool: "sendEmail",
+      input,
+      toolCallId: "call-1",
+      experimental_context: { userId: "user-1" },
+      result,
+      requests: [
+        {
+          method: "emails.send",
+          payload: expect.objectContaining({ to: ["user@example.com"] }),
+          options: {},
+        },
+      ],
+    });
+  });
+
+  it("lets beforeExecute veto a call", async () => {
+    const tools = createResendTools({
+      client,
+      hooks: {
+        beforeExecute: ({ experimental_context }) =>
+          (experimental_context as { userId: string }).userId === "user-1"
+            ? { veto: "Contacts can only be removed by admins" }
+            : undefined,
+      },
+    });
+
+    const result = await tools.removeContact.execute?.(
+      { id: "contact-1" },
+      callOptions
+    );
+
+    expect(result).toEqual({
+      success: false,
+      deleted: false,
+      id: "contact-1",
+      error: "Contacts can only be removed by admins",
+      errorCode: "rejected",
+      retryable: false,
+    });
+    expect(remove).not.toHaveBeenCalled();
+  });
+
+  it("returns a vetoed call in the tool's own result shape", async () => {
+    const tools = createResendTools({
+      client,
+      hooks: { beforeExecute: () => ({ veto: "Reads are disabled" }) },
+    });
+
+    const emails = await tools.listEmails.execute?.({}, callOptions);
+    const batch = await tools.sendBatchEmails.execute?.(
+      { emails: [input] },
+      callOptions
+    );
+
+    expect(emails).toEqual({
+      emails: [],
+      count: 0,
+      error: "Reads are disabled",
+      errorCode: "rejected",
+      retryable: false,
+    });
+    expect(batch).toMatchObject({
+      success: false,
+      ids: [],
+      count: 0,
+      errorCode: "rejected",
+    });
+  });
+
+  it("lets beforeExecute change the input", async () => {
+    send.mockResolvedValue({ data: { id: "email-1" }, error: null });
+    const tools = createResendTools({
+      client,
+      hooks: {
+        beforeExecute: ({ input: original }) => ({
+          input: { ...(original as typeof input), subject: "[Agent] Hi" },
+        }),
+      },
+    });
+
+    await tools.sendEmail.execute?.(input, callOptions);
+
+    expect(send).toHaveBeenCalledWith(
+      expect.objectContaining({ subject: "[Agent] Hi" }),
+      expect.anything()
+    );
+  });
+
+  it("calls onError with the error fields of a failed call", async () => {
+    send.mockResolvedValue({
+      data: null,
+      error: { name: "validation_error", statusCode: 422, message: "Bad" },
+    });
+    const afterExecute = vi.fn();
+    const onError = vi.fn();
+    const tools = createResendTools({
+      client,
+      hooks: { afterExecute, onError },
+    });
+
+    await tools.sendEmail.execute?.(input, callOptions);
+
+    expect(afterExecute).not.toHaveBeenCalled();
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({
+        tool: "sendEmail",
+        error: {
+          error: "Bad",
+          errorCode: "validation",
+          retryable: false,
+          resendErrorName: "validation_error",
+          statusCode: 422,
+        },
+      })
+    );
+  });
+
+  it("logs afterExecute errors instead of failing the call", async () => {
+    send.mockResolvedValue({ data: { id: "email-1" }, error: null });
+    const logger = {
+      debug: vi.fn(),
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    };
+    const tools = createResendTools({
+      client,
+      logger,
+      hooks: {
+        afterExecute: () => {
+          throw new Error("Audit store unavailable");
+        },
+      },
+    });
+
+    const result = await tools.sendEmail.execute?.(input, callOptions);
+
+    expect(result).toMatchObject({ success: true, id: "email-1" });
+    expect(logger.error).toHaveBeenCalledWith(
+      "Error in afterExecute hook",
+      expect.objectContaining({ tool: "sendEmail" })
+    );
+  });
+});
+
+describe("approval policies", () => {
+  const approvalOptions = { toolCallId: "test", messages: [] };
+  const email = (to: string[], extra: Record<string, unknown> = {}) => ({
+    from: "hello@acme.com",
+    to,
+    subject: "Hi",
+    text: "Hello",
+    ...extra,
+  });
+
+  const needsApproval = (tool: { needsApproval?: unknown }, input: unknown) => {
+    if (typeof tool.needsApproval !== "function") {
+      return tool.needsApproval;
+    }
+    return tool.needsApproval(input, approvalOptions);
+  };
+
+  it("asks before batches that reach more than 10 recipients", async () => {
+    const tools = createResendTools({ apiKey: "test" });
+    const recipients = (count: number) =>
+      Array.from({ length: count }, (_, i) => `user${i}@example.com`);
+
+    expect(
+      await needsApproval(tools.sendBatchEmails, {
+        emails: [email(recipients(5)), email(recipients(5))],
+      })
+    ).toBe(false);
+    expect(
+      await needsApproval(tools.sendBatchEmails, {
+        emails: [email(recipients(5)), email(recipients(6))],
+      })
+    ).toBe(true);
+  });
+
+  it("evaluates configured conditions", async () => {
+    const tools = createResendTools({
+      apiKey: "test",
+      emailDomain: "acme.com",
+      approval: {
+        sendEmail: {
+          externalRecipients: true,
+          attachments: true,
+          immediate: true,
+        },
+      },
+    });
+    const scheduled = { scheduledAt: "in 1 hour" };
+
+    expect(
+      await needsApproval(
+        tools.sendEmail,
+        email(["jane@acme.com", "ops@eu.acme.com"], scheduled)
+      )
+    ).toBe(false);
+    expect(
+      await needsApproval(
+        tools.sendEmail,
+        email(["jane@example.com"], scheduled)
+      )
+    ).toBe(true);
+    expect(
+      await needsApproval(
+        tools.sendEmail,
+        email(["jane@acme.com"], {
+          ...scheduled,
+          attachments: [{ filename: "a.pdf", path: "https://x.test/a.pdf" }],
+        })
+      )
+    ).toBe(true);
+    expect(await needsApproval(tools.sendEmail, email(["jane@acme.com"]))).toBe(
+      true
+    );
+  });
+
+  it("accepts predicates and overrides the defaults", async () => {
+    const tools = createResendTools({
+      apiKey: "test",
+      approval: {
+        removeContact: false,
+        createContact: (input) =>
+          (input as { email: string }).email.endsWith("@vip.com"),
+        sendBroadcast: { immediate: true },
+      },
+    });
+
+    expect(tools.removeContact.needsApproval).toBe(false);
+    expect(tools.removeDomain.needsApproval).toBe(true);
+    expect(
+      await needsApproval(tools.createContact, { email: "ceo@vip.com" })
+    ).toBe(true);
+    expect(
+      await needsApproval(tools.sendBroadcast, {
+        broadcastId: "b-1",
+        scheduledAt: "tomorrow at 9am",
+      })
+    ).toBe(false);
+    expect(
+      await needsApproval(tools.sendBroadcast, { broadcastId: "b-1" })
+    ).toBe(true);
+  });
+});
+
+describe("quotas", () => {
+  const send = vi.fn();
+  const batchSend = vi.fn();
+  const client = {
+    emails: { send },
+    batch: { send: batchSend },
+  } as unknown as Resend;
+  const email = (to: string[]) => ({
+    from: "hello@acme.com",
+    to,
+    subject: "Hi",
+    text: "Hello",
+  });
+  const inConversation = (conversationId: string, userId = "user-1") => ({
+    toolCallId: "test",
+    messages: [],
+    experimental_context: { conversationId, userId },
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    send.mockResolvedValue({ data: { id: "email-1" }, error: null });
+  });
+
+  it("stops sending once a conversation reaches its limit", async () => {
+    const tools = createResendTools({
+      client,
+      quota: { limits: [{ per: "conversation", emails: 2 }] },
+    });
+
+    for (const expected of [true, true, false]) {
+      const result = await tools.sendEmail.execute?.(
+        email(["user@example.com"]),
+        inConversation("chat-1")
+      );
+      expect(result?.success).toBe(expected);
+    }
+    const other = await tools.sendEmail.execute?.(
+      email(["user@example.com"]),
+      inConversation("chat-2")
+    );
+
+    expect(other?.success).toBe(true);
+    expect(send).toHaveBeenCalledTimes(3);
+  });
+
+  it("returns quota_exceeded with the limit that was hit", async () => {
+    const tools = createResendTools({
+      client,
+      quota: {
+        limits: [{ per: "user", window: "hour", recipients: 3 }],
+      },
+    });
+
+    await tools.sendEmail.execute?.(
+      email(["a@example.com", "b@example.com"]),
+      inConversation("chat-1")
+    );
+    const result = await tools.sendEmail.execute?.(
+      email(["c@example.com", "d@example.com"]),
+      inConversation("chat-2")
+    );
+
+    expect(result).toEqual({
+      success: false,
+      id: "",
+      error:
+        "Quota exceeded: at most 3 recipients per user per hour. 2 already used, this call needs 2.",
+      errorCode: "quota_exceeded",
+      retryable: true,
+    });
+  });
+
+  it("counts only the emails of a batch that were sent", async () => {
+    batchSend.mockResolvedValue({
+      data: {
+        data: [{ id: "email-1" }],
+        errors: [{ index: 1, message: "Invalid recipient" }],
+      },
+      error: null,
+    });
+    const tools = createResendTools({
+      client,
+      quota: { limits: [{ per: "global", window: "day", emails: 2 }] },
+    });
+
+    await tools.sendBatchEmails.execute?.(
+      {
+        emails: [email(["a@example.com"]), email(["b@example.com"])],
+        batchValidation: "permissive",
+      },
+      inConversation("chat-1")
+    );
+    const single = await tools.sendEmail.execute?.(
+      email(["c@example.com"]),
+      inConversation("chat-1")
+    );
+    const blocked = await tools.sendBatchEmails.execute?.(
+      { emails: [email(["d@example.com"])] },
+      inConversation("chat-1")
+    );
+
+    expect(single?.success).toBe(true);
+    expect(blocked).toMatchObject({
+      success: false,
+      ids: [],
+      count: 0,
+      errorCode: "quota_exceeded",
+    });
+    expect(batchSend).toHaveBeenCalledTimes(1);
+  });
+
+  it("reserves usage so parallel calls cannot all pass the check", async () => {
+    const tools = createResendTools({
+      client,
+      quota: { limits: [{ per: "conversation", emails: 1 }] },
+    });
+
+    const results = await Promise.all(
+      ["a", "b", "c"].map((name) =>
+        tools.sendEmail.execute?.(
+          email([`${name}@example.com`]),
+          inConversation("chat-1")
+        )
+      )
+    );
+
+    expect(results.map((result) => result?.success)).toEqual([
+      true,
+      false,
+      false,
+    ]);
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+
+  it("gives the reservation back when Resend rejects the send", async () => {
+    send.mockResolvedValueOnce({
+      data: null,
+      error: { message: "Invalid `to` field", name: "validation_error" },
+    });
+    const tools = createResendTools({
+      client,
+      quota: { limits: [{ per: "conversation", emails: 1 }] },
+    });
+
+    const failed = await tools.sendEmail.execute?.(
+      email(["user@example.com"]),
+      inConversation("chat-1")
+    );
+    const retried = await tools.sendEmail.execute?.(
+      email(["user@example.com"]),
+      inConversation("chat-1")
+    );
+
+    expect(failed?.success).toBe(false);
+    expect(retried?.success).toBe(true);
+  });
+
+  it("gives the reservation back when the send throws", async () => {
+    send.mockRejectedValueOnce(new Error("Socket closed"));
+    vi.stubEnv("RESEND_API_KEY", "");
+    const quota = { limits: [{ per: "global" as const, emails: 1 }] };
+    const withoutKey = createResendTools({ quota, logger: false });
+    const tools = createResendTools({ client, quota, logger: false });
+
+    const missingKey = await withoutKey.sendEmail.execute?.(
+      email(["user@example.com"]),
+      inConversation("chat-1")
+    );
+    const missingKeyAgain = await withoutKey.sendEmail.execute?.(
+      email(["user@example.com"]),
+      inConversation("chat-1")
+    );
+    const thrown = await tools.sendEmail.execute?.(
+      email(["user@example.com"]),
+      inConversation("chat-1")
+    );
+    const retried = await tools.sendEmail.execute?.(
+      email(["user@example.com"]),
+      inConversation("chat-1")
+    );
+
+    expect(missingKey?.errorCode).toBe("internal");
+    expect(missingKeyAgain?.errorCode).toBe("internal");
+    expect(thrown).toMatchObject({ success: false, error: "Socket closed" });
+    expect(retried?.success).toBe(true);
+    vi.unstubAllEnvs();
+  });
+
+  it("warns about or rejects limits without an ID", async () => {
+    const warn = vi.fn();
+    const logger = { debug: vi.fn(), info: vi.fn(), warn, error: vi.fn() };
+    const limits = [{ per: "conversation" as const, emails: 1 }];
+    const skipping = createResendTools({ client, logger, quota: { limits } });
+    const rejecting = createResendTools({
+      client,
+      logger,
+      quota: { limits, onMissingIdentity: "reject" },
+    });
+
+    const skipped = await skipping.sendEmail.execute?.(
+      email(["user@example.com"]),
+      toolOptions
+    );
+    const rejected = await rejecting.sendEmail.execute?.(
+      email(["user@example.com"]),
+      toolOptions
+    );
+
+    expect(skipped?.success).toBe(true);
+    expect(warn).toHaveBeenCalledWith("Quota limits skipped without an ID", {
+      scopes: ["conversation"],
+    });
+    expect(rejected).toMatchObject({
+      success: false,
+      errorCode: "rejected",
+      error:
+        "Quota limits per conversation need an ID in experimental_context, but none was found.",
+    });
+  });
+
+  it("does not count dry runs", async () => {
+    const tools = createResendTools({
+      client,
+      dryRun: true,
+      quota: { limits: [{ per: "conversation", emails: 1 }] },
+    });
+
+    for (let i = 0; i < 2; i++) {
+      const result = await tools.sendEmail.execute?.(
+        email(["user@example.com"]),
+        inConversation("chat-1")
+      );
+      expect(result?.success).toBe(true);
+    }
+  });
+});
+
+describe("tool configurations", () => {
+  it("sendEmail has correct configuration", () => {
+    expect(sendEmail.description).toContain("Send");
+    expect(sendEmail.inputSchema).toBeDefined();
+  });
+
+  it("removeContact requires approval", () => {
+    expect(removeContact.needsApproval).toBe(true);
+  });
+
+  it("removeDomain requires approval", () => {
+    expect(removeDomain.needsApproval).toBe(true);
+  });
+
+  it("sendBroadcast and removeBroadcast require approval", () => {
+    expect(sendBroadcast.needsApproval).toBe(true);
+    expect(removeBroadcast.needsApproval).toBe(true);
+  });
+
+  it("removeTemplate requires approval", () => {
+    expect(removeTemplate.needsApproval).toBe(true);
+  });
+
+  it("removeSegment requires approval", () => {
+    expect(removeSegment.needsApproval).toBe(true);
+  });
+
+  it("sendBatchEmails decides approval from its input", () => {
+    expect(sendBatchEmails.needsApproval).toBeTypeOf("function");
   });
 
   it("non-destructive tools do not require approval", () => {
     expect(sendEmail.needsApproval).toBeUndefined();
-    expect(sendBatchEmails.needsApproval).toBeUndefined();
     expect(getEmail.needsApproval).toBeUndefined();
+    expect(waitForEmailEvent.needsApproval).toBeUndefined();
     expect(listEmails.needsApproval).toBeUndefined();
     expect(createContact.needsApproval).toBeUndefined();
     expect(listContacts.needsApproval).toBeUndefined();
     expect(listTemplates.needsApproval).toBeUndefined();
     expect(getTemplate.needsApproval).toBeUndefined();
+    expect(listDomains.needsApproval).toBeUndefined();
+    expect(getDomain.needsApproval).toBeUndefined();
+    expect(createDomain.needsApproval).toBeUndefined();
+    expect(verifyDomain.needsApproval).toBeUndefined();
+    expect(listBroadcasts.needsApproval).toBeUndefined();
+    expect(getBroadcast.needsApproval).toBeUndefined();
+    expect(createBroadcast.needsApproval).toBeUndefined();
+    expect(updateBroadcast.needsApproval).toBeUndefined();
+    expect(listSegments.needsApproval).toBeUndefined();
+    expect(getSegment.needsApproval).toBeUndefined();
+    expect(createSegment.needsApproval).toBeUndefined();
+    expect(addContactToSegment.needsApproval).toBeUndefined();
+    expect(removeContactFromSegment.needsApproval).toBeUndefined();
+    expect(updateScheduledEmail.needsApproval).toBeUndefined();
+    expect(cancelScheduledEmail.needsApproval).toBeUndefined();
+    expect(createTemplate.needsApproval).toBeUndefined();
+    expect(updateTemplate.needsApproval).toBeUndefined();
+    expect(publishTemplate.needsApproval).toBeUndefined();
+    expect(duplicateTemplate.needsApproval).toBeUndefined();
+    expect(getContact.needsApproval).toBeUndefined();
+    expect(updateContact.needsApproval).toBeUndefined();
+    expect(listTopics.needsApproval).toBeUndefined();
+    expect(getTopic.needsApproval).toBeUndefined();
+    expect(createTopic.needsApproval).toBeUndefined();
+    expect(updateTopic.needsApproval).toBeUndefined();
+    expect(getContactTopics.needsApproval).toBeUndefined();
+    expect(updateContactTopics.needsApproval).toBeUndefined();
   });
 });
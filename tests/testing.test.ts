@@ -0,0 +1,262 @@
+import type { ToolExecutionOptions } from "ai";
+import { beforeEach, describe, expect, it } from "vitest";
+import { createResendTools } from "../src/index.js";
+import { createFakeResend } from "../src/testing.js";
+
+const WELCOME = /wel/i;
+const ALICE = /^Alice@/;
+const GLOBAL_WELCOME = /Welcome/g;
+
+const toolOptions: ToolExecutionOptions = {
+  toolCallId: "test",
+  messages: [],
+};
+
+const email = (to: string[], subject = "Welcome") => ({
+  from: "hello@acme.com",
+  to,
+  subject,
+  text: "Thanks for signing up.",
+});
+
+describe("createFakeResend", () => {
+  const fake = createFakeResend();
+  const tools = createResendTools({
+    client: fake.client,
+    retry: { baseDelayMs: 1 },
+  });
+
+  beforeEach(() => {
+    fake.reset();
+  });
+
+  it("stores sent emails and answers reads from them", async () => {
+    const sent = await tools.sendEmail.execute?.(
+      email(["user@example.com"]),
+      toolOptions
+    );
+    const fetched = await tools.getEmail.execute?.(
+      { emailId: sent?.id ?? "" },
+      toolOptions
+    );
+
+    expect(sent?.success).toBe(true);
+    expect(fetched).toMatchObject({
+      success: true,
+      id: sent?.id,
+      from: "hello@acme.com",
+      to: ["user@example.com"],
+      subject: "Welcome",
+      lastEvent: "delivered",
+    });
+    expect(
+      fake.expectEmailSent({ to: "USER@example.com", subject: WELCOME })
+    ).toMatchObject({ text: "Thanks for signing up." });
+  });
+
+  it("matches address patterns ignoring case and the same way every time", async () => {
+    await tools.sendEmail.execute?.(email(["alice@example.com"]), toolOptions);
+
+    expect(fake.expectEmailSent({ to: ALICE })).toBeDefined();
+    for (let i = 0; i < 3; i++) {
+      expect(fake.expectEmailSent({ subject: GLOBAL_WELCOME })).toBeDefined();
+    }
+  });
+
+  it("throws with the sent emails when no email matches", async () => {
+    await tools.sendEmail.execute?.(email(["user@example.com"]), toolOptions);
+
+    expect(() => fake.expectEmailSent({ to: "other@example.com" })).toThrow(
+      'Expected an email matching to other@example.com. Sent emails:\n- to user@example.com: "Welcome"'
+    );
+    expect(() => fake.expectNoEmailSent({ subject: "Welcome" })).toThrow(
+      "Expected no email matching subject Welcome"
+    );
+    fake.expectNoEmailSent({ subject: "Goodbye" });
+  });
+
+  it("rejects emails Resend would reject", async () => {
+    const result = await tools.sendEmail.execute?.(
+      { from: "hello@acme.com", to: ["user@example.com"], text: "Hello" },
+      toolOptions
+    );
+
+    expect(result).toMatchObject({
+      success: false,
+      errorCode: "validation",
+      resendErrorName: "validation_error",
+      error: "Missing `subject` field.",
+    });
+    fake.expectNoEmailSent();
+  });
+
+  it("returns scripted failures before working again", async () => {
+    fake.fail("emails.send", "validation", { times: 2 });
+
+    const results: unknown[] = [];
+    for (let i = 0; i < 3; i++) {
+      results.push(
+        await tools.sendEmail.execute?.(
+          email(["user@example.com"]),
+          toolOptions
+        )
+      );
+    }
+
+    expect(
+      results.map((result) => (result as { success: boolean }).success)
+    ).toEqual([false, false, true]);
+    expect(results[0]).toMatchObject({ statusCode: 422 });
+    expect(fake.emails).toHaveLength(1);
+  });
+
+  it("retries scripted rate limits through the request layer", async () => {
+    fake.fail("emails.get", "rate_limit");
+    const sent = await tools.sendEmail.execute?.(
+      email(["user@example.com"]),
+      toolOptions
+    );
+
+    const result = await tools.getEmail.execute?.(
+      { emailId: sent?.id ?? "" },
+      toolOptions
+    );
+
+    expect(result?.success).toBe(true);
+    expect(
+      fake.calls.filter(({ method }) => method === "emails.get")
+    ).toHaveLength(2);
+  });
+
+  it("keeps scheduled emails until they are canceled", async () => {
+    const sent = await tools.sendEmail.execute?.(
+      { ...email(["user@example.com"]), scheduledAt: "2030-01-01T09:00:00Z" },
+      toolOptions
+    );
+    expect(fake.scheduledEmails).toHaveLength(1);
+
+    const canceled = await tools.cancelScheduledEmail.execute?.(
+      { id: sent?.id ?? "" },
+      toolOptions
+    );
+
+    expect(canceled?.success).toBe(true);
+    expect(fake.scheduledEmails).toHaveLength(0);
+    expect(fake.emails[0]?.last_event).toBe("canceled");
+  });
+
+  it("reports invalid batch emails per index in permissive mode", async () => {
+    const result = await tools.sendBatchEmails.execute?.(
+      {
+        emails: [
+          email(["a@example.com"]),
+          { ...email(["b@example.com"]), subject: "" },
+        ],
+        batchValidation: "permissive",
+      },
+      toolOptions
+    );
+
+    expect(result).toMatchObject({
+      count: 1,
+      results: [
+        { index: 0, id: fake.emails[0]?.id },
+        { index: 1, error: "Missing `subject` field." },
+      ],
+    });
+    fake.expectEmailSent({ to: "a@example.com" });
+    fake.expectNoEmailSent({ to: "b@example.com" });
+  });
+
+  it("tracks contacts and their segments", async () => {
+    const segment = await tools.createSegment.execute?.(
+      { name: "Customers" },
+      toolOptions
+    );
+    await tools.createContact.execute?.(
+      { email: "user@example.com", firstName: "Ada" },
+      toolOptions
+    );
+    await tools.addContactToSegment.execute?.(
+      { contact: "user@example.com", segmentId: segment?.id ?? "" },
+      toolOptions
+    );
+
+    const contact = await tools.getContact.execute?.(
+      { id: "user@example.com" },
+      toolOptions
+    );
+
+    expect(contact).toMatchObject({
+      success: true,
+      email: "user@example.com",
+      firstName: "Ada",
+      segments: [{ id: segment?.id, name: "Customers" }],
+    });
+  });
+
+  it("finds contacts by an email address passed as the ID", async () => {
+    await tools.createContact.execute?.(
+      { email: "jane@example.com" },
+      toolOptions
+    );
+
+    const updated = await tools.updateContact.execute?.(
+      { id: "jane@example.com", firstName: "Jane" },
+      toolOptions
+    );
+    const removed = await tools.removeContact.execute?.(
+      { id: "jane@example.com" },
+      toolOptions
+    );
+
+    expect(updated?.success).toBe(true);
+    expect(removed).toMatchObject({ success: true, deleted: true });
+    expect(fake.contacts).toEqual([]);
+  });
+
+  it("publishes templates and sends with them", async () => {
+    const created = await tools.createTemplate.execute?.(
+      {
+        name: "Welcome",
+        subject: "Welcome, {{{NAME}}}",
+        html: "<p>Hi {{{NAME}}}</p>",
+        variables: [{ key: "NAME", type: "string" }],
+      },
+      toolOptions
+    );
+    await tools.publishTemplate.execute?.(
+      { id: created?.id ?? "" },
+      toolOptions
+    );
+
+    const sent = await tools.sendEmail.execute?.(
+      {
+        from: "hello@acme.com",
+        to: ["user@example.com"],
+        template: { id: created?.id ?? "", variables: { NAME: "Ada" } },
+      },
+      toolOptions
+    );
+
+    expect(sent?.success).toBe(true);
+    expect(fake.templates[0]).toMatchObject({ status: "published" });
+    fake.expectEmailSent({ templateId: created?.id });
+  });
+
+  it("forgets everything on reset", async () => {
+    fake.fail("emails.send");
+    await tools.sendEmail.execute?.(email(["user@example.com"]), toolOptions);
+    await tools.sendEmail.execute?.(email(["user@example.com"]), toolOptions);
+
+    fake.reset();
+
+    expect(fake.emails).toEqual([]);
+    expect(fake.calls).toEqual([]);
+    const result = await tools.sendEmail.execute?.(
+      email(["user@example.com"]),
+      toolOptions
+    );
+    expect(result?.success).toBe(true);
+  });
+});
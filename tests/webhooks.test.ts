@@ -0,0 +1,327 @@
+import type { ToolExecutionOptions } from "ai";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createResendTools } from "../src/index.js";
+import { createFakeResend } from "../src/testing.js";
+import {
+  createMemoryEventStore,
+  createWebhookHandler,
+  type EmailEventStore,
+  verifyWebhook,
+} from "../src/webhooks.js";
+
+const SECRET = `whsec_${btoa("test-signing-secret")}`;
+
+const toolOptions: ToolExecutionOptions = {
+  toolCallId: "test",
+  messages: [],
+};
+
+const sign = async (id: string, timestamp: number, body: string) => {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode("test-signing-secret"),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    key,
+    new TextEncoder().encode(`${id}.${timestamp}.${body}`)
+  );
+  return `v1,${btoa(String.fromCharCode(...new Uint8Array(signature)))}`;
+};
+
+const emailEvent = (
+  type: string,
+  createdAt: string,
+  extra: Record<string, unknown> = {}
+) => ({
+  type,
+  created_at: createdAt,
+  data: {
+    email_id: "email-1",
+    created_at: "2026-01-01T10:00:00.000Z",
+    from: "hello@acme.com",
+    to: ["user@example.com"],
+    subject: "Welcome",
+    ...extra,
+  },
+});
+
+const webhookRequest = async (
+  payload: unknown,
+  {
+    id = "msg_1",
+    timestamp = Math.floor(Date.now() / 1000),
+  }: { id?: string; timestamp?: number } = {}
+) => {
+  const body = JSON.stringify(payload);
+  return new Request("https://example.com/webhooks/resend", {
+    method: "POST",
+    headers: {
+      "svix-id": id,
+      "svix-timestamp": String(timestamp),
+      "svix-signature": await sign(id, timestamp, body),
+    },
+    body,
+  });
+};
+
+describe("verifyWebhook", () => {
+  it("accepts a payload signed with the secret", async () => {
+    const timestamp = Math.floor(Date.now() / 1000);
+    const payload = JSON.stringify({ type: "email.sent" });
+
+    const result = await verifyWebhook({
+      payload,
+      headers: {
+        "webhook-id": "msg_1",
+        "webhook-timestamp": String(timestamp),
+        "webhook-signature": `v1,bm9wZQ== ${await sign("msg_1", timestamp, payload)}`,
+      },
+      secret: SECRET,
+    });
+
+    expect(result).toEqual({
+      valid: true,
+      id: "msg_1",
+      payload: { type: "email.sent" },
+    });
+  });
+
+  it("rejects a changed payload", async () => {
+    const request = await webhookRequest({ type: "email.sent" });
+
+    const result = await verifyWebhook({
+      payload: JSON.stringify({ type: "email.bounced" }),
+      headers: request.headers,
+      secret: SECRET,
+    });
+
+    expect(result).toEqual({
+      valid: false,
+      reason: "Webhook signature does not match",
+    });
+  });
+
+  it("rejects timestamps outside the tolerance", async () => {
+    const request = await webhookRequest(
+      { type: "email.sent" },
+      { timestamp: Math.floor(Date.now() / 1000) - 600 }
+    );
+
+    const result = await verifyWebhook({
+      payload: await request.text(),
+      headers: request.headers,
+      secret: SECRET,
+    });
+
+    expect(result).toEqual({
+      valid: false,
+      reason: "Webhook timestamp is too old or too new",
+    });
+  });
+});
+
+describe("createWebhookHandler", () => {
+  let store: EmailEventStore;
+  let handler: (request: Request) => Promise<Response>;
+  const onEvent = vi.fn();
+
+  beforeEach(() => {
+    onEvent.mockReset();
+    store = createMemoryEventStore();
+    handler = createWebhookHandler({
+      store,
+      secret: SECRET,
+      onEvent,
+      logger: false,
+    });
+  });
+
+  it("stores email events for the getEmailEvents tool", async () => {
+    const fake = createFakeResend();
+    const tools = createResendTools({ client: fake.client, events: store });
+
+    const responses = [
+      await handler(
+        await webhookRequest(
+          emailEvent("email.bounced", "2026-01-01T10:00:05.000Z", {
+            bounce: {
+              type: "Permanent",
+              subType: "General",
+              message: "Mailbox does not exist",
+            },
+          }),
+          { id: "msg_2" }
+        )
+      ),
+      await handler(
+        await webhookRequest(
+          emailEvent("email.sent", "2026-01-01T10:00:01.000Z"),
+          { id: "msg_1" }
+        )
+      ),
+    ];
+    const result = await tools.getEmailEvents.execute?.(
+      { emailId: "email-1" },
+      toolOptions
+    );
+
+    expect(responses.map((response) => response.status)).toEqual([200, 200]);
+    expect(result).toEqual({
+      success: true,
+      emailId: "email-1",
+      events: [
+        { type: "sent", createdAt: "2026-01-01T10:00:01.000Z" },
+        {
+          type: "bounced",
+          createdAt: "2026-01-01T10:00:05.000Z",
+          bounce: {
+            type: "Permanent",
+            subType: "General",
+            message: "Mailbox does not exist",
+          },
+        },
+      ],
+      count: 2,
+      lastEvent: "bounced",
+    });
+    expect(onEvent).toHaveBeenCalledTimes(2);
+  });
+
+  it("stores delays, failures, and suppressions with their reason", async () => {
+    const fake = createFakeResend();
+    const tools = createResendTools({ client: fake.client, events: store });
+
+    const responses = [
+      await handler(
+        await webhookRequest(
+          emailEvent("email.delivery_delayed", "2026-01-01T10:00:02.000Z"),
+          { id: "msg_1" }
+        )
+      ),
+      await handler(
+        await webhookRequest(
+          emailEvent("email.failed", "2026-01-01T10:00:03.000Z", {
+            failed: { reason: "reached_daily_quota" },
+          }),
+          { id: "msg_2" }
+        )
+      ),
+      await handler(
+        await webhookRequest(
+          emailEvent("email.suppressed", "2026-01-01T10:00:04.000Z", {
+            suppressed: {
+              message: "Recipient is on the suppression list",
+              type: "OnAccountSuppressionList",
+            },
+          }),
+          { id: "msg_3" }
+        )
+      ),
+    ];
+    const result = await tools.getEmailEvents.execute?.(
+      { emailId: "email-1" },
+      toolOptions
+    );
+
+    expect(responses.map((response) => response.status)).toEqual([
+      200, 200, 200,
+    ]);
+    expect(result).toMatchObject({
+      events: [
+        { type: "delivery_delayed", createdAt: "2026-01-01T10:00:02.000Z" },
+        { type: "failed", reason: "reached_daily_quota" },
+        { type: "suppressed", reason: "Recipient is on the suppression list" },
+      ],
+      lastEvent: "suppressed",
+    });
+  });
+
+  it("stores a redelivered event once", async () => {
+    const event = emailEvent("email.delivered", "2026-01-01T10:00:02.000Z");
+
+    await handler(await webhookRequest(event));
+    await handler(await webhookRequest(event));
+
+    expect(await store.list("email-1")).toHaveLength(1);
+  });
+
+  it("rejects unsigned requests", async () => {
+    const response = await handler(
+      new Request("https://example.com/webhooks/resend", {
+        method: "POST",
+        body: JSON.stringify(emailEvent("email.sent", "2026-01-01")),
+      })
+    );
+
+    expect(response.status).toBe(401);
+    expect(await response.json()).toEqual({
+      error: "Missing webhook signature headers",
+    });
+  });
+
+  it("acknowledges events it does not store", async () => {
+    const response = await handler(
+      await webhookRequest({
+        type: "contact.created",
+        created_at: "2026-01-01T10:00:00.000Z",
+        data: { id: "contact-1" },
+      })
+    );
+
+    expect(response.status).toBe(200);
+    expect(onEvent).not.toHaveBeenCalled();
+  });
+
+  it("rejects malformed email events", async () => {
+    const response = await handler(
+      await webhookRequest({
+        type: "email.clicked",
+        created_at: "2026-01-01T10:00:00.000Z",
+        data: { email_id: "email-1" },
+      })
+    );
+
+    expect(response.status).toBe(400);
+    expect(await store.list("email-1")).toEqual([]);
+  });
+
+  it("returns 500 when the event cannot be saved", async () => {
+    const failing = createWebhookHandler({
+      store: {
+        save: () => Promise.reject(new Error("database is down")),
+        list: () => [],
+      },
+      secret: SECRET,
+      logger: false,
+    });
+
+    const response = await failing(
+      await webhookRequest(emailEvent("email.sent", "2026-01-01"))
+    );
+
+    expect(response.status).toBe(500);
+  });
+});
+
+describe("getEmailEvents", () => {
+  it("explains that it needs an event store", async () => {
+    const fake = createFakeResend();
+    const tools = createResendTools({ client: fake.client });
+
+    const result = await tools.getEmailEvents.execute?.(
+      { emailId: "email-1" },
+      toolOptions
+    );
+
+    expect(result).toMatchObject({
+      success: false,
+      errorCode: "not_configured",
+      error:
+        "No webhook event store is configured. Pass the events option to createResendTools.",
+    });
+  });
+});